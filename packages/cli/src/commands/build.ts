@@ -131,6 +131,7 @@ EXPOSE ${port}
 ENV PORT=${port}
 ENV TIMEOUT=${timeout}
 ENV PLUGIN_DIR=/app/plugin
+ENV DATA_DIR=/app/data
 
 HEALTHCHECK --interval=30s --timeout=3s --start-period=5s --retries=3 \\
   CMD node -e "require('http').get('http://localhost:${port}/health', (r) => process.exit(r.statusCode === 200 ? 0 : 1))"
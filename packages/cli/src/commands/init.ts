@@ -1,6 +1,32 @@
 import path from 'path';
 import readline from 'readline';
-import { FileSystemService, StaticFileConfig } from '../types.js';
+import { FileSystemService, PermissionsConfig, StaticFileConfig } from '../types.js';
+
+// Tool access offered by init, safest first
+const PERMISSION_PRESETS: { label: string; permissions: PermissionsConfig }[] = [
+  {
+    label: 'Read-only analysis - reads files, no edits, shell or web',
+    permissions: {
+      mode: 'default',
+      allowedTools: ['Read', 'Glob', 'Grep'],
+      disallowedTools: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash', 'WebFetch', 'WebSearch'],
+    },
+  },
+  {
+    label: 'Workspace edits only - reads and edits workspace files, no shell or web',
+    permissions: {
+      mode: 'acceptEdits',
+      allowedTools: ['Read', 'Glob', 'Grep', 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'],
+      disallowedTools: ['Bash', 'WebFetch', 'WebSearch'],
+    },
+  },
+  {
+    label: 'Full - every tool, including shell commands and web access',
+    permissions: { mode: 'bypassPermissions' },
+  },
+];
+
+const DEFAULT_PERMISSION_PRESET = 2;
 
 export class InitCommand {
   private readonly fileSystem: FileSystemService;
@@ -31,7 +57,17 @@ export class InitCommand {
     // Get static files configuration
     const staticFiles = await this.promptForStaticFiles(projectDir);
 
-    const config = this.generateConfig(projectName, description, runtimeImage, dependencies, staticFiles);
+    // Get tool permissions
+    const permissions = await this.promptForPermissions();
+
+    const config = this.generateConfig(
+      projectName,
+      description,
+      runtimeImage,
+      dependencies,
+      staticFiles,
+      permissions
+    );
 
     await this.fileSystem.writeFile(configPath, config);
     console.log('Created claude-bazaar.config.json');
@@ -202,15 +238,21 @@ export class InitCommand {
           }
 
           const urlPath = await question(`URL path [/${path.basename(folder)}]: `);
-          // const accessType = await question('Access type - shared/per-user [shared]: ');
+
+          const accessType = await question('Access type - shared/per-user [shared]: ');
+          // per-user folders are served from each caller's own session copy
+          const access = accessType.trim().toLowerCase() === 'per-user' ? 'per-user' : 'shared';
+          const authType = await question('Require authentication - token/none [token]: ');
+          const auth = authType.trim().toLowerCase() === 'none' ? 'none' : 'token';
 
           staticFiles.push({
             folder: folder.startsWith('./') ? folder : `./${folder}`,
             urlPath: urlPath || `/${path.basename(folder)}`,
-            access: 'shared', // Default for now
+            access,
+            auth,
           });
 
-          console.log(`Added: ${folder} -> ${urlPath || `/${path.basename(folder)}`}`);
+          console.log(`Added: ${folder} -> ${urlPath || `/${path.basename(folder)}`} (${access}, auth: ${auth})`);
 
           const another = await question('Add another folder? [y/N]: ');
           addMore = another.toLowerCase() === 'y';
@@ -223,6 +265,53 @@ export class InitCommand {
     }
   }
 
+  private async promptForPermissions(): Promise<PermissionsConfig> {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    const question = (prompt: string): Promise<string> => {
+      return new Promise((resolve) => {
+        rl.question(prompt, (answer) => {
+          resolve(answer.trim());
+        });
+      });
+    };
+
+    try {
+      console.log('\nWhat may Claude do in the container?');
+      PERMISSION_PRESETS.forEach((preset, index) => {
+        const isDefault = index + 1 === DEFAULT_PERMISSION_PRESET ? ' (default)' : '';
+        console.log(`  ${index + 1}) ${preset.label}${isDefault}`);
+      });
+
+      const selection = await question(`\nEnter selection [${DEFAULT_PERMISSION_PRESET}]: `);
+      let index = selection === '' ? DEFAULT_PERMISSION_PRESET - 1 : parseInt(selection, 10) - 1;
+      if (!PERMISSION_PRESETS[index]) {
+        console.log(`Invalid selection. Using: ${PERMISSION_PRESETS[DEFAULT_PERMISSION_PRESET - 1].label}`);
+        index = DEFAULT_PERMISSION_PRESET - 1;
+      }
+
+      const permissions: PermissionsConfig = { ...PERMISSION_PRESETS[index].permissions };
+      if (permissions.mode === 'bypassPermissions') {
+        return permissions;
+      }
+
+      const commands = await question('Shell commands to allow, comma-separated (e.g. npm test, git log:*) or Enter for none: ');
+      const allowedBashCommands = commands.split(',').map((command) => command.trim()).filter(Boolean);
+      if (allowedBashCommands.length > 0) {
+        permissions.allowedBashCommands = allowedBashCommands;
+        // Disallowed tools win over allowed ones, so stop blocking Bash as a whole
+        permissions.disallowedTools = permissions.disallowedTools?.filter((tool) => tool !== 'Bash');
+      }
+
+      return permissions;
+    } finally {
+      rl.close();
+    }
+  }
+
   private async promptForRuntime(): Promise<string> {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -293,7 +382,8 @@ export class InitCommand {
     description: string,
     runtimeImage: string,
     dependencies: { python?: string; node?: string },
-    staticFiles: StaticFileConfig[]
+    staticFiles: StaticFileConfig[],
+    permissions: PermissionsConfig
   ): string {
     const config: Record<string, unknown> = {
       name: projectName,
@@ -327,6 +417,8 @@ export class InitCommand {
       config.staticFiles = staticFiles;
     }
 
+    config.permissions = permissions;
+
     return JSON.stringify(config, null, 2) + '\n';
   }
 
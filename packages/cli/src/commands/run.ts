@@ -3,6 +3,11 @@ import { RunOptions } from '../types.js';
 import { ConfigLoader } from '../services/ConfigLoader.js';
 import { ImageTag } from '../services/ImageTag.js';
 
+// Host environment variables handed to the container when set
+const FORWARDED_ENV = ['BAZAAR_ADMIN_SECRET', 'BAZAAR_URL_SIGNING_SECRET'];
+
+const DATA_DIR = '/app/data';
+
 export class RunCommand {
   private readonly configLoader: ConfigLoader;
 
@@ -32,6 +37,25 @@ export class RunCommand {
       args.push('-d');
     }
 
+    // Keep runtime state, session workspaces and Claude's own conversation
+    // history on the volume so sessions can be resumed after a restart
+    if (options.volume) {
+      args.push(
+        '-v', `${options.volume}:${DATA_DIR}`,
+        '-e', `DATA_DIR=${DATA_DIR}`,
+        '-e', 'SESSION_STORE=file',
+        '-e', `WORKSPACE_DIR=${DATA_DIR}/workspaces`,
+        '-e', `CLAUDE_CONFIG_DIR=${DATA_DIR}/claude`
+      );
+    }
+
+    // Pass secrets through by name so they don't show up in the process list
+    for (const key of FORWARDED_ENV) {
+      if (process.env[key]) {
+        args.push('-e', key);
+      }
+    }
+
     if (options.env) {
       for (const [key, value] of Object.entries(options.env)) {
         args.push('-e', `${key}=${value}`);
@@ -0,0 +1,51 @@
+import { RuntimeClient } from '../services/RuntimeClient.js';
+import { TokenOptions } from '../types.js';
+
+const DEFAULT_URL = 'http://localhost:3000';
+
+export class TokenCommand {
+  async create(label: string, options: TokenOptions = {}): Promise<void> {
+    const client = this.createClient(options);
+
+    const created = await client.createToken({
+      label,
+      scopes: options.scopes,
+      expiresIn: options.expiresInDays ? options.expiresInDays * 24 * 60 * 60 : undefined,
+    });
+
+    console.log(`Created token "${created.label}" (${created.id})`);
+    console.log(`Scopes: ${created.scopes.join(', ')}`);
+    if (created.expiresAt) {
+      console.log(`Expires: ${new Date(created.expiresAt).toISOString()}`);
+    }
+    console.log(`\n${created.token}\n`);
+    console.log('This token will not be shown again.');
+  }
+
+  async list(options: TokenOptions = {}): Promise<void> {
+    const tokens = await this.createClient(options).listTokens();
+
+    if (tokens.length === 0) {
+      console.log('No tokens.');
+      return;
+    }
+
+    for (const token of tokens) {
+      const expires = token.expiresAt ? new Date(token.expiresAt).toISOString() : 'never';
+      const lastUsed = token.lastUsedAt ? new Date(token.lastUsedAt).toISOString() : 'never';
+      console.log(`${token.id}  ${token.prefix}…  ${token.label}`);
+      console.log(`  scopes: ${token.scopes.join(', ')}  expires: ${expires}  last used: ${lastUsed}`);
+    }
+  }
+
+  async revoke(id: string, options: TokenOptions = {}): Promise<void> {
+    await this.createClient(options).revokeToken(id);
+    console.log(`Revoked token ${id}`);
+  }
+
+  private createClient(options: TokenOptions): RuntimeClient {
+    const url = options.url || process.env.BAZAAR_URL || DEFAULT_URL;
+    const adminSecret = options.adminSecret || process.env.BAZAAR_ADMIN_SECRET;
+    return new RuntimeClient(url, adminSecret);
+  }
+}
@@ -0,0 +1,61 @@
+import path from 'path';
+import { RuntimeClient } from '../services/RuntimeClient.js';
+import { FileSystemService, TranscriptFormat, TranscriptOptions } from '../types.js';
+
+const DEFAULT_URL = 'http://localhost:3000';
+const FORMATS: TranscriptFormat[] = ['json', 'md', 'html'];
+
+export class TranscriptsCommand {
+  private readonly fileSystem: FileSystemService;
+
+  constructor(fileSystem: FileSystemService) {
+    this.fileSystem = fileSystem;
+  }
+
+  /**
+   * Export one session's transcript to stdout or a file, or every session's
+   * transcript into a directory when no session ID is given.
+   */
+  async export(sessionId: string | undefined, options: TranscriptOptions = {}): Promise<void> {
+    const format = options.format || 'md';
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Format must be one of: ${FORMATS.join(', ')}`);
+    }
+
+    const client = this.createClient(options);
+
+    if (sessionId) {
+      const transcript = await client.getTranscript(sessionId, format);
+      if (options.output) {
+        await this.fileSystem.writeFile(options.output, transcript);
+        console.log(`Wrote ${options.output}`);
+      } else {
+        process.stdout.write(transcript);
+      }
+      return;
+    }
+
+    const outputDir = options.output || 'transcripts';
+    const sessions = await client.listSessions();
+
+    if (sessions.length === 0) {
+      console.log('No sessions.');
+      return;
+    }
+
+    await this.fileSystem.mkdir(outputDir);
+    for (const session of sessions) {
+      const transcript = await client.getTranscript(session.id, format);
+      const filePath = path.join(outputDir, `${session.id.replace(/[^\w-]/g, '_')}.${format}`);
+      await this.fileSystem.writeFile(filePath, transcript);
+    }
+
+    console.log(`Exported ${sessions.length} transcript(s) to ${outputDir}`);
+  }
+
+  private createClient(options: TranscriptOptions): RuntimeClient {
+    const url = options.url || process.env.BAZAAR_URL || DEFAULT_URL;
+    const adminSecret = options.adminSecret || process.env.BAZAAR_ADMIN_SECRET;
+    return new RuntimeClient(url, adminSecret);
+  }
+}
@@ -6,6 +6,8 @@ import { InitCommand } from './commands/init.js';
 import { BuildCommand } from './commands/build.js';
 import { RunCommand } from './commands/run.js';
 import { ServeCommand } from './commands/serve.js';
+import { TokenCommand } from './commands/token.js';
+import { TranscriptsCommand } from './commands/transcripts.js';
 
 function createProgram(): Command {
   const program = new Command();
@@ -19,6 +21,8 @@ function createProgram(): Command {
   const buildCommand = new BuildCommand(fileSystem, configLoader);
   const runCommand = new RunCommand(configLoader);
   const serveCommand = new ServeCommand();
+  const tokenCommand = new TokenCommand();
+  const transcriptsCommand = new TranscriptsCommand(fileSystem);
 
   program
     .name('claude-bazaar')
@@ -58,6 +62,7 @@ function createProgram(): Command {
     .option('-t, --tag <tag>', 'Image tag')
     .option('-p, --port <port>', 'Port to expose', parseInt)
     .option('-d, --detach', 'Run in background')
+    .option('-v, --volume <name>', 'Named volume that keeps sessions across restarts')
     .action(async (options) => {
       try {
         await runCommand.execute(process.cwd(), options);
@@ -81,6 +86,74 @@ function createProgram(): Command {
       }
     });
 
+  const token = program
+    .command('token')
+    .description('Manage access tokens on a running container');
+
+  token
+    .command('create <label>')
+    .description('Create an access token')
+    .option('--url <url>', 'Container URL (default: $BAZAAR_URL or http://localhost:3000)')
+    .option('--admin-secret <secret>', 'Admin secret (default: $BAZAAR_ADMIN_SECRET)')
+    .option('--scopes <scopes>', 'Comma-separated scopes: execute, admin (default: execute)', (val) => val.split(','))
+    .option('--expires-in-days <days>', 'Expire the token after this many days', parseFloat)
+    .action(async (label, options) => {
+      try {
+        await tokenCommand.create(label, options);
+      } catch (error) {
+        console.error('Error:', (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  token
+    .command('list')
+    .description('List access tokens')
+    .option('--url <url>', 'Container URL (default: $BAZAAR_URL or http://localhost:3000)')
+    .option('--admin-secret <secret>', 'Admin secret (default: $BAZAAR_ADMIN_SECRET)')
+    .action(async (options) => {
+      try {
+        await tokenCommand.list(options);
+      } catch (error) {
+        console.error('Error:', (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  token
+    .command('revoke <id>')
+    .description('Revoke an access token')
+    .option('--url <url>', 'Container URL (default: $BAZAAR_URL or http://localhost:3000)')
+    .option('--admin-secret <secret>', 'Admin secret (default: $BAZAAR_ADMIN_SECRET)')
+    .action(async (id, options) => {
+      try {
+        await tokenCommand.revoke(id, options);
+      } catch (error) {
+        console.error('Error:', (error as Error).message);
+        process.exit(1);
+      }
+    });
+
+  const transcripts = program
+    .command('transcripts')
+    .description('Work with session transcripts on a running container');
+
+  transcripts
+    .command('export [sessionId]')
+    .description('Export a session transcript, or all of them when no session ID is given')
+    .option('--url <url>', 'Container URL (default: $BAZAAR_URL or http://localhost:3000)')
+    .option('--admin-secret <secret>', 'Admin secret (default: $BAZAAR_ADMIN_SECRET)')
+    .option('-f, --format <format>', 'Output format: json, md, html (default: md)')
+    .option('-o, --output <path>', 'File for one session, directory for all (default: stdout / ./transcripts)')
+    .action(async (sessionId, options) => {
+      try {
+        await transcriptsCommand.export(sessionId, options);
+      } catch (error) {
+        console.error('Error:', (error as Error).message);
+        process.exit(1);
+      }
+    });
+
   return program;
 }
 
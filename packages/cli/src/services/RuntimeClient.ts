@@ -0,0 +1,83 @@
+import {
+  AccessTokenInfo,
+  CreateTokenRequest,
+  CreatedToken,
+  SessionInfo,
+  TranscriptFormat,
+} from '../types.js';
+
+/**
+ * Talks to the admin and session APIs of a running Bazaar container.
+ */
+export class RuntimeClient {
+  private readonly baseUrl: string;
+  private readonly adminSecret?: string;
+
+  constructor(baseUrl: string, adminSecret?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.adminSecret = adminSecret;
+  }
+
+  async createToken(request: CreateTokenRequest): Promise<CreatedToken> {
+    return this.request<CreatedToken>('POST', '/admin/tokens', request);
+  }
+
+  async listTokens(): Promise<AccessTokenInfo[]> {
+    const { tokens } = await this.request<{ tokens: AccessTokenInfo[] }>('GET', '/admin/tokens');
+    return tokens;
+  }
+
+  async revokeToken(id: string): Promise<void> {
+    await this.request('DELETE', `/admin/tokens/${encodeURIComponent(id)}`);
+  }
+
+  async listSessions(): Promise<SessionInfo[]> {
+    const { sessions } = await this.request<{ sessions: SessionInfo[] }>('GET', '/sessions');
+    return sessions;
+  }
+
+  async getTranscript(sessionId: string, format: TranscriptFormat): Promise<string> {
+    const response = await this.send(
+      'GET',
+      `/sessions/${encodeURIComponent(sessionId)}/transcript?format=${format}`
+    );
+    const text = await response.text();
+
+    // JSON transcripts are re-indented so exported files are readable
+    return format === 'json' ? JSON.stringify(JSON.parse(text), null, 2) + '\n' : text;
+  }
+
+  private async request<T>(method: string, urlPath: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, urlPath, body);
+    return (await response.json()) as T;
+  }
+
+  // Sends the request and throws with the server's error message on failure
+  private async send(method: string, urlPath: string, body?: unknown): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (this.adminSecret) {
+      headers.Authorization = `Bearer ${this.adminSecret}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${urlPath}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch {
+      throw new Error(`Could not reach container at ${this.baseUrl}. Is it running?`);
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+}
@@ -6,6 +6,38 @@ export interface BazaarConfig {
   runtime: RuntimeConfig;
   dependencies?: DependenciesConfig;
   staticFiles?: StaticFileConfig[];
+  quotas?: QuotaConfig;
+  permissions?: PermissionsConfig;
+  requestOptions?: RequestOptionsConfig;
+}
+
+export interface QuotaConfig {
+  maxUsdPerDay?: number;
+  maxUsdPerMonth?: number;
+  maxExecutionsPerHour?: number;
+  maxTurnsPerRun?: number;
+}
+
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+
+export interface ToolPermissions {
+  mode?: PermissionMode;
+  allowedTools?: string[];           // e.g. "Read", "Bash(git diff:*)"
+  disallowedTools?: string[];
+  allowedBashCommands?: string[];    // e.g. "npm test", "git log:*"
+  disallowedBashCommands?: string[];
+  askUser?: boolean;                 // ask the web UI about other tools
+}
+
+export interface PermissionsConfig extends ToolPermissions {
+  commands?: Record<string, ToolPermissions>;  // per slash command, e.g. "/review"
+}
+
+// What callers may choose per request
+export interface RequestOptionsConfig {
+  models?: string[];           // e.g. "sonnet", "opus"
+  defaultModel?: string;
+  appendSystemPrompt?: boolean;
 }
 
 export interface DependenciesConfig {
@@ -17,7 +49,7 @@ export interface StaticFileConfig {
   folder: string;           // local folder path
   urlPath: string;          // URL path to serve at
   access?: 'shared' | 'per-user';  // access control mode
-  // Future options: cache, auth, etc.
+  auth?: 'none' | 'token';          // 'token' (default) requires credentials or a signed URL
 }
 
 export interface RuntimeConfig {
@@ -36,6 +68,7 @@ export interface RunOptions {
   tag?: string;
   port?: number;
   detach?: boolean;
+  volume?: string;  // named volume for sessions, tokens and usage
   env?: Record<string, string>;
 }
 
@@ -44,6 +77,54 @@ export interface ServeOptions {
   port?: number;
 }
 
+export interface TokenOptions {
+  url?: string;
+  adminSecret?: string;
+  scopes?: TokenScope[];
+  expiresInDays?: number;
+}
+
+export type TokenScope = 'execute' | 'admin';
+
+export interface CreateTokenRequest {
+  label: string;
+  scopes?: TokenScope[];
+  expiresIn?: number;  // seconds
+}
+
+export interface AccessTokenInfo {
+  id: string;
+  label: string;
+  scopes: TokenScope[];
+  prefix: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface CreatedToken extends AccessTokenInfo {
+  token: string;
+}
+
+export type TranscriptFormat = 'json' | 'md' | 'html';
+
+export interface TranscriptOptions {
+  url?: string;
+  adminSecret?: string;
+  format?: TranscriptFormat;
+  output?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  title?: string;
+  owner?: string;
+  createdAt: number;
+  lastActivity: number;
+  messageCount: number;
+  costUsd: number;
+}
+
 export interface FileSystemService {
   exists(path: string): Promise<boolean>;
   readFile(path: string): Promise<string>;
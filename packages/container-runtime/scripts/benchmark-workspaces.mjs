@@ -0,0 +1,49 @@
+// Compare how long each workspace strategy takes to set up a workspace, and
+// how much disk it uses. Run `npm run build` first.
+//
+//   npm run benchmark:workspaces -- <pluginDir> [count] [workspaceDir]
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createWorkspaceStrategy, WORKSPACE_STRATEGIES } from '../dist/workspaces/index.js';
+
+const [pluginDir, countArg = '10', workspaceDir = os.tmpdir()] = process.argv.slice(2);
+if (!pluginDir) {
+  console.error('Usage: benchmark-workspaces.mjs <pluginDir> [count] [workspaceDir]');
+  process.exit(1);
+}
+
+const count = parseInt(countArg, 10);
+const sharedPaths = (process.env.WORKSPACE_SHARED_PATHS || 'node_modules').split(',');
+
+async function usedBytes(dir) {
+  const stats = await fs.statfs(dir);
+  return (stats.blocks - stats.bfree) * stats.bsize;
+}
+
+function formatBytes(bytes) {
+  return `${(Math.max(bytes, 0) / 1024 / 1024).toFixed(1)} MB`;
+}
+
+console.log(`Creating ${count} workspaces from ${pluginDir} in ${workspaceDir}\n`);
+
+for (const type of WORKSPACE_STRATEGIES) {
+  const strategy = createWorkspaceStrategy(type, sharedPaths);
+  const baseDir = await fs.mkdtemp(path.join(workspaceDir, `bench-${type}-`));
+  const usedBefore = await usedBytes(baseDir);
+
+  const started = process.hrtime.bigint();
+  for (let i = 0; i < count; i++) {
+    await strategy.populate(pluginDir, path.join(baseDir, `workspace-${i}`));
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+  const diskBytes = (await usedBytes(baseDir)) - usedBefore;
+
+  console.log(
+    `${type.padEnd(6)} ${(elapsedMs / count).toFixed(1).padStart(8)} ms/workspace` +
+      `  ${formatBytes(diskBytes / count).padStart(10)}/workspace`
+  );
+
+  await fs.rm(baseDir, { recursive: true, force: true });
+}
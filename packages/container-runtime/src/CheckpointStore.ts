@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { RuntimeError } from './errors.js';
+import { CloneStrategy } from './workspaces/index.js';
+
+export interface Checkpoint {
+  // Sequence number within the session, starting at 1
+  id: number;
+  createdAt: number;
+  // Prompt that was about to run, shortened
+  prompt: string;
+  // Claude conversation to resume after restoring; unset before the first turn
+  conversationId?: string;
+  messageCount: number;
+  // Execution that ran right after the snapshot; its transcript is dropped on restore
+  executionId?: string;
+}
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+// Clones a workspace without the excluded paths
+class SnapshotCloner extends CloneStrategy {
+  private readonly excludedPaths: string[];
+
+  constructor(excludedPaths: string[]) {
+    super();
+    this.excludedPaths = excludedPaths;
+  }
+
+  protected override includes(relativePath: string): boolean {
+    return !isUnder(relativePath, this.excludedPaths);
+  }
+}
+
+// Whether the path is one of the given '/'-separated paths or inside one
+function isUnder(relativePath: string, paths: string[]): boolean {
+  const segments = relativePath.split(path.sep);
+  return paths.some((candidate) =>
+    candidate.split('/').every((segment, index) => segments[index] === segment)
+  );
+}
+
+/**
+ * Snapshots of a session workspace taken before each execution, under
+ * DATA_DIR/checkpoints. Files are cloned, so snapshots are cheap on
+ * copy-on-write filesystems and full copies elsewhere. Excluded paths, the
+ * plugin's own files and shared dependencies, are neither snapshotted nor
+ * touched on restore.
+ */
+export class CheckpointStore {
+  private readonly dir: string;
+  private readonly maxCheckpoints: number;
+  private readonly excludedPaths: string[];
+  private readonly cloner: SnapshotCloner;
+  // Serialises index updates per session
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(dataDir: string, maxCheckpoints: number, excludedPaths: string[] = []) {
+    this.dir = path.join(dataDir, 'checkpoints');
+    this.maxCheckpoints = maxCheckpoints;
+    this.excludedPaths = excludedPaths;
+    this.cloner = new SnapshotCloner(excludedPaths);
+  }
+
+  get enabled(): boolean {
+    return this.maxCheckpoints > 0;
+  }
+
+  /**
+   * Snapshot the workspace, dropping the oldest checkpoints beyond the limit.
+   */
+  create(
+    sessionId: string,
+    workspacePath: string,
+    state: Omit<Checkpoint, 'id' | 'createdAt'>
+  ): Promise<Checkpoint> {
+    return this.withLock(sessionId, async () => {
+      const checkpoints = await this.readIndex(sessionId);
+      const checkpoint: Checkpoint = {
+        id: (checkpoints[checkpoints.length - 1]?.id ?? 0) + 1,
+        createdAt: Date.now(),
+        ...state,
+        prompt: state.prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      };
+
+      await this.cloner.populate(workspacePath, this.snapshotPath(sessionId, checkpoint.id));
+      checkpoints.push(checkpoint);
+
+      const expired = checkpoints.splice(0, Math.max(0, checkpoints.length - this.maxCheckpoints));
+      await this.writeIndex(sessionId, checkpoints);
+      for (const old of expired) {
+        await fs.rm(this.snapshotPath(sessionId, old.id), { recursive: true, force: true });
+      }
+
+      return checkpoint;
+    });
+  }
+
+  async list(sessionId: string): Promise<Checkpoint[]> {
+    await this.locks.get(sessionId);
+    return this.readIndex(sessionId);
+  }
+
+  /**
+   * Put the workspace back the way it was at the checkpoint. Later checkpoints
+   * belong to the discarded turns and are removed.
+   */
+  restore(sessionId: string, checkpointId: number, workspacePath: string): Promise<Checkpoint> {
+    return this.withLock(sessionId, async () => {
+      const checkpoints = await this.readIndex(sessionId);
+      const index = checkpoints.findIndex((checkpoint) => checkpoint.id === checkpointId);
+      if (index === -1) {
+        throw new RuntimeError('Checkpoint not found', 'CHECKPOINT_NOT_FOUND', 404);
+      }
+
+      // Empty the workspace in place, so its path stays valid for the session
+      await this.clear(workspacePath, '');
+      await this.cloner.populate(this.snapshotPath(sessionId, checkpointId), workspacePath);
+
+      const discarded = checkpoints.splice(index + 1);
+      await this.writeIndex(sessionId, checkpoints);
+      for (const checkpoint of discarded) {
+        await fs.rm(this.snapshotPath(sessionId, checkpoint.id), { recursive: true, force: true });
+      }
+
+      return checkpoints[index];
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.locks.get(sessionId);
+    await fs.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  // Remove everything under relativeDir except the excluded paths
+  private async clear(workspacePath: string, relativeDir: string): Promise<void> {
+    for (const entry of await fs.readdir(path.join(workspacePath, relativeDir), { withFileTypes: true })) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (isUnder(relativePath, this.excludedPaths)) {
+        continue;
+      }
+
+      const containsExcluded = this.excludedPaths.some((excluded) =>
+        excluded.startsWith(`${relativePath.split(path.sep).join('/')}/`)
+      );
+      if (entry.isDirectory() && containsExcluded) {
+        await this.clear(workspacePath, relativePath);
+      } else {
+        await fs.rm(path.join(workspacePath, relativePath), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private withLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(sessionId) ?? Promise.resolve();
+    const result = previous.catch(() => undefined).then(task);
+    const settled = result.catch(() => undefined);
+
+    this.locks.set(sessionId, settled);
+    settled.then(() => {
+      if (this.locks.get(sessionId) === settled) {
+        this.locks.delete(sessionId);
+      }
+    });
+
+    return result;
+  }
+
+  private async readIndex(sessionId: string): Promise<Checkpoint[]> {
+    try {
+      const content = await fs.readFile(this.indexPath(sessionId), 'utf-8');
+      return JSON.parse(content) as Checkpoint[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeIndex(sessionId: string, checkpoints: Checkpoint[]): Promise<void> {
+    await fs.mkdir(this.sessionDir(sessionId), { recursive: true });
+    const tmpPath = `${this.indexPath(sessionId)}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(checkpoints, null, 2));
+    await fs.rename(tmpPath, this.indexPath(sessionId));
+  }
+
+  // Session IDs come from clients, so never use them as file names directly
+  private sessionDir(sessionId: string): string {
+    return path.join(this.dir, createHash('sha256').update(sessionId).digest('hex'));
+  }
+
+  private indexPath(sessionId: string): string {
+    return path.join(this.sessionDir(sessionId), 'index.json');
+  }
+
+  private snapshotPath(sessionId: string, checkpointId: number): string {
+    return path.join(this.sessionDir(sessionId), String(checkpointId));
+  }
+}
@@ -1,12 +1,23 @@
-import { spawn, ChildProcess } from 'child_process';
-import { createInterface } from 'readline';
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
-import { StreamEvent } from './types.js';
+import { ExecutorBackend, ExecutorRequest } from './executors/index.js';
+import { PermissionBroker } from './PermissionBroker.js';
+import { StructuredOutput } from './StructuredOutput.js';
+import {
+  JsonSchema,
+  PermissionsConfig,
+  ResultEvent,
+  RunOptions,
+  StreamEvent,
+  StructuredResult,
+  ToolPermissions,
+} from './types.js';
 
 export interface ExecutionResult {
   output: string;
   exitCode: number;
+  // Set for runs with an outputSchema
+  structured?: StructuredResult;
 }
 
 export interface StreamingExecution extends EventEmitter {
@@ -15,84 +26,185 @@ export interface StreamingExecution extends EventEmitter {
   on(event: 'end', listener: (result: ExecutionResult) => void): this;
   on(event: 'error', listener: (error: Error) => void): this;
   on(event: 'cancelled', listener: () => void): this;
+  // Emitted once the execution has left the queue
+  on(event: 'started', listener: () => void): this;
 }
 
 export interface StreamingExecutionHandle {
   emitter: StreamingExecution;
   executionId: string;
-  process: ChildProcess;
+  // Stops the run; the emitter reports 'cancelled' once it has exited
+  cancel(): void;
 }
 
+export interface ExecuteOptions extends RunOptions {
+  workspacePath: string;
+  prompt: string;
+  apiKey?: string;
+  // Claude session to continue
+  resumeSessionId?: string;
+}
+
+/**
+ * Runs prompts through an executor backend and turns its output into
+ * results and stream events. Each run ends with exactly one of 'end',
+ * 'error' or 'cancelled'.
+ */
 export class ClaudeExecutor {
+  private readonly backend: ExecutorBackend;
   private readonly defaultTimeout: number;
+  private readonly maxTurns?: number;
+  private readonly permissions?: PermissionsConfig;
+  private readonly permissionBroker?: PermissionBroker;
+  private readonly structuredOutput = new StructuredOutput();
 
-  constructor(defaultTimeout: number = 120000) {
+  constructor(
+    backend: ExecutorBackend,
+    defaultTimeout: number = 120000,
+    maxTurns?: number,
+    permissions?: PermissionsConfig,
+    permissionBroker?: PermissionBroker
+  ) {
+    this.backend = backend;
     this.defaultTimeout = defaultTimeout;
+    this.maxTurns = maxTurns;
+    this.permissions = permissions;
+    this.permissionBroker = permissionBroker;
   }
 
-  async execute(
-    workspacePath: string,
-    prompt: string,
-    timeout?: number,
-    apiKey?: string
-  ): Promise<ExecutionResult> {
-    const effectiveTimeout = timeout ?? this.defaultTimeout;
+  execute(options: ExecuteOptions): Promise<ExecutionResult> {
+    const { emitter } = this.start(options, 'json', randomUUID());
 
     return new Promise((resolve, reject) => {
-      const process = this.spawnClaude(workspacePath, prompt, false, apiKey);
-      const timeoutId = this.setupTimeout(process, effectiveTimeout, reject);
+      emitter.on('end', resolve);
+      emitter.on('error', reject);
+      emitter.on('cancelled', () => reject(new Error('Execution was cancelled')));
+    });
+  }
 
-      let stdout = '';
-      let stderr = '';
+  executeStreaming(options: ExecuteOptions, executionId: string = randomUUID()): StreamingExecutionHandle {
+    return this.start(options, 'stream-json', executionId);
+  }
 
-      process.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+  private start(
+    options: ExecuteOptions,
+    outputFormat: ExecutorRequest['outputFormat'],
+    executionId: string
+  ): StreamingExecutionHandle {
+    return options.outputSchema
+      ? this.runStructured(options, options.outputSchema, outputFormat, executionId)
+      : this.run(options, outputFormat, executionId);
+  }
 
-      process.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+  /**
+   * Run asking for JSON that matches the schema. An answer that does not
+   * validate gets one retry in the same conversation, told what was wrong.
+   * A `structured_result` event follows the last result.
+   */
+  private runStructured(
+    options: ExecuteOptions,
+    schema: JsonSchema,
+    outputFormat: ExecutorRequest['outputFormat'],
+    executionId: string
+  ): StreamingExecutionHandle {
+    const emitter = new EventEmitter() as StreamingExecution;
+    const appendSystemPrompt = [options.appendSystemPrompt, this.structuredOutput.instructions(schema)]
+      .filter(Boolean)
+      .join('\n\n');
+    // The retry keeps the permissions of the original prompt's slash command
+    const permissions = this.permissionsFor(options.prompt);
+    let current: StreamingExecutionHandle;
+    let earlierCostUsd = 0;
 
-      process.on('close', (code) => {
-        clearTimeout(timeoutId);
+    const attempt = (attemptOptions: ExecuteOptions, retriesLeft: number) => {
+      current = this.run({ ...attemptOptions, appendSystemPrompt }, outputFormat, executionId, permissions);
+      let result: ResultEvent | undefined;
 
-        if (code === 0) {
-          resolve({ output: stdout, exitCode: code });
-        } else {
-          reject(new Error(stderr || `Claude Code exited with code ${code}`));
+      current.emitter.on('event', (event) => {
+        if (event.type === 'result') {
+          result = event;
         }
+        emitter.emit('event', event);
       });
+      current.emitter.on('data', (chunk) => emitter.emit('data', chunk));
+      current.emitter.on('error', (error) => emitter.emit('error', error));
+      current.emitter.on('cancelled', () => emitter.emit('cancelled'));
 
-      process.on('error', (error) => {
-        clearTimeout(timeoutId);
-        reject(error);
+      current.emitter.on('end', (execution) => {
+        const structured = this.structuredOutput.check(schema, result?.result ?? '');
+
+        if (!structured.valid && retriesLeft > 0 && result?.session_id && !result.is_error) {
+          earlierCostUsd += result.total_cost_usd ?? 0;
+          attempt(
+            {
+              ...options,
+              prompt: this.structuredOutput.retryPrompt(structured.errors),
+              resumeSessionId: result.session_id,
+            },
+            retriesLeft - 1
+          );
+          return;
+        }
+
+        // Non-streaming callers only see the last result, so it carries the cost of both attempts
+        const output =
+          outputFormat === 'json' && result && earlierCostUsd > 0
+            ? JSON.stringify({ ...result, total_cost_usd: (result.total_cost_usd ?? 0) + earlierCostUsd })
+            : execution.output;
+
+        emitter.emit('event', { type: 'structured_result', ...structured });
+        emitter.emit('end', { ...execution, output, structured });
       });
-    });
+    };
+
+    attempt(options, 1);
+
+    return { emitter, executionId, cancel: () => current.cancel() };
   }
 
-  executeStreaming(
-    workspacePath: string,
-    prompt: string,
-    timeout?: number,
-    apiKey?: string
+  private run(
+    options: ExecuteOptions,
+    outputFormat: ExecutorRequest['outputFormat'],
+    executionId: string,
+    permissions: ToolPermissions | undefined = this.permissionsFor(options.prompt)
   ): StreamingExecutionHandle {
     const emitter = new EventEmitter() as StreamingExecution;
-    const effectiveTimeout = timeout ?? this.defaultTimeout;
-    const executionId = randomUUID();
+    const effectiveTimeout = options.timeout ?? this.defaultTimeout;
+    const broker = permissions?.askUser ? this.permissionBroker : undefined;
 
-    const proc = this.spawnClaude(workspacePath, prompt, true, apiKey);
-    const timeoutId = this.setupTimeout(proc, effectiveTimeout, (err) => emitter.emit('error', err));
+    const proc = this.backend.start({
+      workspacePath: options.workspacePath,
+      prompt: options.prompt,
+      outputFormat,
+      apiKey: options.apiKey,
+      resumeSessionId: options.resumeSessionId,
+      model: options.model,
+      fallbackModel: options.fallbackModel,
+      maxTurns: options.maxTurns ?? this.maxTurns,
+      appendSystemPrompt: options.appendSystemPrompt,
+      permissions,
+      permissionPrompt: broker?.open(executionId),
+    });
 
     let stdout = '';
     let stderr = '';
+    let finished = false;
 
-    // Parse stream-json output line by line
-    const rl = createInterface({
-      input: proc.stdout!,
-      crlfDelay: Infinity,
-    });
+    const finish = (emit: () => void) => {
+      if (!finished) {
+        finished = true;
+        clearTimeout(timeoutId);
+        broker?.close(executionId);
+        emit();
+      }
+    };
+
+    const timeoutId = setTimeout(() => {
+      proc.kill();
+      finish(() => emitter.emit('error', new Error(`Execution timed out after ${effectiveTimeout}ms`)));
+    }, effectiveTimeout);
 
-    rl.on('line', (line) => {
+    proc.on('line', (line) => {
       if (!line.trim()) return;
 
       stdout += line + '\n';
@@ -108,70 +220,37 @@ export class ClaudeExecutor {
       }
     });
 
-    proc.stderr?.on('data', (data: Buffer) => {
-      stderr += data.toString();
+    proc.on('stderr', (text) => {
+      stderr += text;
     });
 
-    proc.on('close', (code) => {
-      clearTimeout(timeoutId);
+    proc.on('exit', (code) => {
       if (code === 0) {
-        emitter.emit('end', { output: stdout, exitCode: code ?? 0 });
-      } else if (code === null || proc.killed) {
-        // Process was killed (cancelled)
-        emitter.emit('cancelled');
+        finish(() => emitter.emit('end', { output: stdout, exitCode: 0 }));
+      } else if (code === null) {
+        finish(() => emitter.emit('cancelled'));
       } else {
-        emitter.emit('error', new Error(stderr || `Claude Code exited with code ${code}`));
+        finish(() => emitter.emit('error', new Error(stderr || `Claude Code exited with code ${code}`)));
       }
     });
 
     proc.on('error', (error) => {
-      clearTimeout(timeoutId);
-      emitter.emit('error', error);
+      finish(() => emitter.emit('error', error));
     });
 
-    return { emitter, executionId, process: proc };
+    return { emitter, executionId, cancel: () => proc.kill() };
   }
 
-  private spawnClaude(
-    workspacePath: string,
-    prompt: string,
-    streaming: boolean = false,
-    apiKey?: string
-  ): ChildProcess {
-    const args = ['-p', prompt, '--dangerously-skip-permissions'];
-    if (streaming) {
-      args.push('--output-format', 'stream-json', '--verbose');
-    } else {
-      args.push('--output-format', 'json');
+  // Prompts starting with a slash command get that command's overrides
+  private permissionsFor(prompt: string): ToolPermissions | undefined {
+    if (!this.permissions) {
+      return undefined;
     }
 
-    // Build environment - only set ANTHROPIC_API_KEY if we have an explicit key
-    // Otherwise let Claude use stored subscription credentials
-    const env = { ...process.env };
-    if (apiKey) {
-      env.ANTHROPIC_API_KEY = apiKey;
-    }
+    const { commands, ...defaults } = this.permissions;
+    const command = /^\/(\S+)/.exec(prompt.trimStart())?.[1];
+    const override = command ? commands?.[`/${command}`] ?? commands?.[command] : undefined;
 
-    return spawn('claude', args, {
-      cwd: workspacePath,
-      env,
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
-  }
-
-  private setupTimeout(
-    process: ChildProcess,
-    timeout: number,
-    reject: (error: Error) => void
-  ): NodeJS.Timeout {
-    return setTimeout(() => {
-      process.kill('SIGTERM');
-      setTimeout(() => {
-        if (!process.killed) {
-          process.kill('SIGKILL');
-        }
-      }, 5000);
-      reject(new Error(`Execution timed out after ${timeout}ms`));
-    }, timeout);
+    return { ...defaults, ...override };
   }
 }
@@ -1,6 +1,10 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
+import { PathGuard } from './PathGuard.js';
+import { RuntimeError } from './errors.js';
+import { StructuredOutput } from './StructuredOutput.js';
+import { JsonSchema } from './types.js';
 
 export interface SlashCommand {
   name: string;
@@ -14,7 +18,6 @@ const BUILTIN_COMMANDS: SlashCommand[] = [
   { name: '/clear', description: 'Clear conversation history', source: 'builtin' },
   { name: '/compact', description: 'Compact conversation with optional focus instructions', source: 'builtin' },
   { name: '/exit', description: 'Exit the REPL', source: 'builtin' },
-  { name: '/rewind', description: 'Rewind the conversation and/or code', source: 'builtin' },
 
   // Configuration & Settings
   { name: '/config', description: 'Open the Settings interface', source: 'builtin' },
@@ -61,6 +64,9 @@ const BUILTIN_COMMANDS: SlashCommand[] = [
 export class CommandDiscovery {
   private pluginDir: string;
   private cachedCommands: SlashCommand[] | null = null;
+  // Per project command; null when it declares none
+  private readonly outputSchemas = new Map<string, JsonSchema | null>();
+  private readonly structuredOutput = new StructuredOutput();
 
   constructor(pluginDir: string) {
     this.pluginDir = pluginDir;
@@ -151,7 +157,47 @@ export class CommandDiscovery {
     return null;
   }
 
+  /**
+   * Output schema of the project command a prompt starts with, declared in
+   * its frontmatter as `output-schema: <path in the plugin>`.
+   */
+  async outputSchemaFor(prompt: string): Promise<JsonSchema | undefined> {
+    const name = /^\/([\w.-]+)/.exec(prompt.trimStart())?.[1];
+    if (!name) {
+      return undefined;
+    }
+
+    if (!this.outputSchemas.has(name)) {
+      this.outputSchemas.set(name, await this.loadOutputSchema(name));
+    }
+    return this.outputSchemas.get(name) ?? undefined;
+  }
+
+  private async loadOutputSchema(name: string): Promise<JsonSchema | null> {
+    const commandPath = path.join(this.pluginDir, '.claude', 'commands', `${name}.md`);
+    const content = await fs.readFile(commandPath, 'utf-8').catch(() => null);
+    const frontmatter = content?.match(/^---\n([\s\S]*?)\n---/)?.[1];
+    const schemaPath = frontmatter?.match(/^output-schema:\s*(.+)$/m)?.[1].trim().replace(/^["']|["']$/g, '');
+    if (!schemaPath) {
+      return null;
+    }
+
+    try {
+      const resolved = await new PathGuard(this.pluginDir).resolveForRead(schemaPath);
+      const schema = JSON.parse(await fs.readFile(resolved, 'utf-8')) as JsonSchema;
+      this.structuredOutput.compile(schema);
+      return schema;
+    } catch (error) {
+      throw new RuntimeError(
+        `Output schema of /${name} could not be loaded: ${(error as Error).message}`,
+        'OUTPUT_SCHEMA_INVALID',
+        500
+      );
+    }
+  }
+
   clearCache(): void {
     this.cachedCommands = null;
+    this.outputSchemas.clear();
   }
 }
@@ -0,0 +1,178 @@
+import { QueueFullError } from './errors.js';
+
+export interface ExecutionQueueConfig {
+  maxConcurrent: number;
+  // 0 disables the per-session limit
+  maxPerSession: number;
+  maxQueueSize: number;
+}
+
+export interface QueuePosition {
+  position: number;
+  estimatedWaitMs: number;
+}
+
+export interface QueueStats {
+  running: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueueSize: number;
+}
+
+export interface QueueTicket {
+  /** Resolves once the execution may start. */
+  ready: Promise<void>;
+  /** Leave the queue or free the slot. Safe to call more than once. */
+  release(): void;
+}
+
+interface Waiter {
+  sessionId?: string;
+  lastPosition: number;
+  onPositionChange?: (position: QueuePosition) => void;
+  grant: () => void;
+}
+
+// Starting point for wait estimates until real executions have finished
+const INITIAL_AVERAGE_DURATION_MS = 60 * 1000;
+const DURATION_SMOOTHING = 0.2;
+
+/**
+ * FIFO queue in front of Claude executions. Caps how many run at once, both
+ * globally and per session, and rejects new work once the queue is full.
+ */
+export class ExecutionQueue {
+  private readonly config: ExecutionQueueConfig;
+  private readonly waiting: Waiter[] = [];
+  private readonly runningPerSession = new Map<string, number>();
+  private running = 0;
+  private averageDurationMs = INITIAL_AVERAGE_DURATION_MS;
+
+  constructor(config: ExecutionQueueConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Throws QueueFullError when there is neither a free slot nor room to wait.
+   */
+  assertCapacity(): void {
+    if (this.running >= this.config.maxConcurrent && this.waiting.length >= this.config.maxQueueSize) {
+      const { estimatedWaitMs } = this.estimate(this.waiting.length + 1);
+      throw new QueueFullError(Math.max(1, Math.ceil(estimatedWaitMs / 1000)));
+    }
+  }
+
+  enqueue(
+    sessionId?: string,
+    onPositionChange?: (position: QueuePosition) => void
+  ): QueueTicket {
+    this.assertCapacity();
+
+    let state: 'waiting' | 'running' | 'done' = 'waiting';
+    let startedAt = 0;
+    let grant: () => void = () => {};
+
+    const ready = new Promise<void>((resolve) => {
+      grant = () => {
+        state = 'running';
+        startedAt = Date.now();
+        resolve();
+      };
+    });
+
+    const waiter: Waiter = { sessionId, lastPosition: 0, onPositionChange, grant };
+    this.waiting.push(waiter);
+
+    // Dispatch on the next turn so callers can attach listeners first
+    setImmediate(() => this.dispatch());
+
+    const release = () => {
+      if (state === 'waiting') {
+        state = 'done';
+        this.waiting.splice(this.waiting.indexOf(waiter), 1);
+        this.notifyPositions();
+      } else if (state === 'running') {
+        state = 'done';
+        this.running--;
+        this.adjustSession(sessionId, -1);
+        this.recordDuration(Date.now() - startedAt);
+        this.dispatch();
+      }
+    };
+
+    return { ready, release };
+  }
+
+  getStats(): QueueStats {
+    return {
+      running: this.running,
+      queued: this.waiting.length,
+      maxConcurrent: this.config.maxConcurrent,
+      maxQueueSize: this.config.maxQueueSize,
+    };
+  }
+
+  private dispatch(): void {
+    let index = 0;
+
+    while (index < this.waiting.length && this.running < this.config.maxConcurrent) {
+      const waiter = this.waiting[index];
+
+      if (!this.sessionHasCapacity(waiter.sessionId)) {
+        index++;
+        continue;
+      }
+
+      this.waiting.splice(index, 1);
+      this.running++;
+      this.adjustSession(waiter.sessionId, 1);
+      waiter.grant();
+    }
+
+    this.notifyPositions();
+  }
+
+  private notifyPositions(): void {
+    this.waiting.forEach((waiter, index) => {
+      const position = index + 1;
+      if (waiter.lastPosition !== position) {
+        waiter.lastPosition = position;
+        waiter.onPositionChange?.(this.estimate(position));
+      }
+    });
+  }
+
+  private estimate(position: number): QueuePosition {
+    return {
+      position,
+      estimatedWaitMs: Math.round(
+        Math.ceil(position / this.config.maxConcurrent) * this.averageDurationMs
+      ),
+    };
+  }
+
+  private sessionHasCapacity(sessionId?: string): boolean {
+    if (!sessionId || this.config.maxPerSession <= 0) {
+      return true;
+    }
+    return (this.runningPerSession.get(sessionId) ?? 0) < this.config.maxPerSession;
+  }
+
+  private adjustSession(sessionId: string | undefined, delta: number): void {
+    if (!sessionId) {
+      return;
+    }
+
+    const count = (this.runningPerSession.get(sessionId) ?? 0) + delta;
+    if (count > 0) {
+      this.runningPerSession.set(sessionId, count);
+    } else {
+      this.runningPerSession.delete(sessionId);
+    }
+  }
+
+  private recordDuration(durationMs: number): void {
+    this.averageDurationMs =
+      this.averageDurationMs * (1 - DURATION_SMOOTHING) + durationMs * DURATION_SMOOTHING;
+  }
+}
@@ -1,50 +1,167 @@
-import { ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { Job, JobStatus, StreamEvent } from './types.js';
+import { BufferedEvent, ReplayBuffer } from './ReplayBuffer.js';
+import { StreamingExecutionHandle } from './ClaudeExecutor.js';
+
+// Finished jobs are kept around so callers can still poll for their result
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_MS || '3600000', 10);
+const JOB_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Events kept per job, like for streams; older ones are dropped
+const JOB_EVENT_LIMIT = parseInt(process.env.REPLAY_BUFFER_SIZE || '1000', 10);
+
+// Closed replay buffers stay available briefly so reconnecting clients get the tail
+const STREAM_RETENTION_MS = 60 * 1000;
 
 interface ExecutionEntry {
-  process: ChildProcess;
+  // Unset while the execution is still waiting in the queue
+  handle?: StreamingExecutionHandle;
+  onCancel?: () => void;
   sessionId?: string;
+  // Caller that started the execution; only they may cancel it
+  callerId?: string;
   startTime: number;
   emitter?: EventEmitter;
 }
 
+interface StreamEntry {
+  buffer: ReplayBuffer;
+  // Caller that started the execution; only they may reattach
+  callerId?: string;
+}
+
+interface JobEntry {
+  job: Job;
+  emitter: EventEmitter;
+  events: ReplayBuffer;
+}
+
+const TERMINAL_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
 export class ExecutionRegistry {
   private executions = new Map<string, ExecutionEntry>();
+  private jobs = new Map<string, JobEntry>();
+  private streams = new Map<string, StreamEntry>();
+  private pendingCancels = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    setInterval(() => this.pruneJobs(), JOB_PRUNE_INTERVAL_MS).unref();
+  }
 
   register(
     executionId: string,
-    process: ChildProcess,
+    handle: StreamingExecutionHandle,
+    sessionId?: string,
+    emitter?: EventEmitter,
+    callerId?: string
+  ): void {
+    const entry: ExecutionEntry = {
+      handle,
+      sessionId,
+      callerId,
+      startTime: Date.now(),
+      emitter,
+    };
+    this.executions.set(executionId, entry);
+
+    // Auto-cleanup when the run is over
+    const cleanup = () => {
+      if (this.executions.get(executionId) === entry) {
+        this.executions.delete(executionId);
+      }
+      this.clearScheduledCancel(executionId);
+    };
+    handle.emitter.once('end', cleanup);
+    handle.emitter.once('error', cleanup);
+    handle.emitter.once('cancelled', cleanup);
+  }
+
+  /**
+   * Track an execution that is waiting for a slot so it can be cancelled
+   * before it runs. register() replaces the entry once it starts.
+   */
+  registerQueued(
+    executionId: string,
+    onCancel: () => void,
     sessionId?: string,
-    emitter?: EventEmitter
+    emitter?: EventEmitter,
+    callerId?: string
   ): void {
     this.executions.set(executionId, {
-      process,
+      onCancel,
       sessionId,
+      callerId,
       startTime: Date.now(),
       emitter,
     });
+  }
 
-    // Auto-cleanup when process exits
-    process.on('close', () => {
-      this.executions.delete(executionId);
+  /**
+   * Drop a queued entry that never started running, e.g. because preparing
+   * the workspace failed.
+   */
+  unregister(executionId: string): void {
+    this.executions.delete(executionId);
+    this.clearScheduledCancel(executionId);
+  }
+
+  registerStream(executionId: string, buffer: ReplayBuffer, callerId?: string): void {
+    this.streams.set(executionId, { buffer, callerId });
+
+    buffer.once('close', () => {
+      this.clearScheduledCancel(executionId);
+      setTimeout(() => {
+        buffer.removeAllListeners();
+        this.streams.delete(executionId);
+      }, STREAM_RETENTION_MS).unref();
     });
   }
 
+  // The stream's buffer, if it belongs to callerId
+  getStream(executionId: string, callerId: string): ReplayBuffer | undefined {
+    const entry = this.streams.get(executionId);
+    return entry?.callerId === callerId ? entry.buffer : undefined;
+  }
+
+  /**
+   * Cancel the execution after a grace period unless a client reattaches
+   * (clearScheduledCancel) in the meantime.
+   */
+  scheduleCancel(executionId: string, delayMs: number): void {
+    if (delayMs <= 0) {
+      this.cancel(executionId);
+      return;
+    }
+
+    this.clearScheduledCancel(executionId);
+    this.pendingCancels.set(
+      executionId,
+      setTimeout(() => {
+        this.pendingCancels.delete(executionId);
+        this.cancel(executionId);
+      }, delayMs)
+    );
+  }
+
+  clearScheduledCancel(executionId: string): void {
+    const timer = this.pendingCancels.get(executionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingCancels.delete(executionId);
+    }
+  }
+
   cancel(executionId: string): boolean {
     const entry = this.executions.get(executionId);
     if (!entry) {
       return false;
     }
 
-    // Kill the process
-    entry.process.kill('SIGTERM');
+    entry.handle?.cancel();
+    entry.onCancel?.();
 
-    // Force kill after 2 seconds if still alive
-    setTimeout(() => {
-      if (!entry.process.killed) {
-        entry.process.kill('SIGKILL');
-      }
-    }, 2000);
+    this.clearScheduledCancel(executionId);
 
     // Emit cancellation event if emitter exists
     if (entry.emitter) {
@@ -63,8 +180,142 @@ export class ExecutionRegistry {
     return Array.from(this.executions.keys());
   }
 
+  /**
+   * IDs of queued and running executions for a session.
+   */
+  getBySession(sessionId: string): string[] {
+    return Array.from(this.executions.entries())
+      .filter(([, entry]) => entry.sessionId === sessionId)
+      .map(([id]) => id);
+  }
+
   getActiveCount(): number {
-    return this.executions.size;
+    let count = 0;
+    for (const entry of this.executions.values()) {
+      if (entry.handle) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  createJob(sessionId?: string, callerId?: string): Job {
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      sessionId,
+      callerId,
+      createdAt: Date.now(),
+    };
+
+    this.jobs.set(job.id, { job, emitter: new EventEmitter(), events: new ReplayBuffer(JOB_EVENT_LIMIT) });
+    return job;
+  }
+
+  getJob(jobId: string): Job | undefined {
+    return this.jobs.get(jobId)?.job;
+  }
+
+  getJobEventCount(jobId: string): number {
+    return this.jobs.get(jobId)?.events.lastEventId ?? 0;
+  }
+
+  /**
+   * Collected job events after afterId. `truncated` is set when some were
+   * already dropped, and `lastEventId` counts every event so far.
+   */
+  getJobEvents(
+    jobId: string,
+    afterId: number
+  ): { events: BufferedEvent[]; truncated: boolean; lastEventId: number } | undefined {
+    const entry = this.jobs.get(jobId);
+    if (!entry) {
+      return undefined;
+    }
+
+    return { ...entry.events.since(afterId), lastEventId: entry.events.lastEventId };
+  }
+
+  /**
+   * Emitter for live job updates: 'event' with each BufferedEvent and
+   * 'done' once the job reaches a terminal status.
+   */
+  getJobEmitter(jobId: string): EventEmitter | undefined {
+    return this.jobs.get(jobId)?.emitter;
+  }
+
+  attachJobExecution(jobId: string, executionId: string): void {
+    const entry = this.jobs.get(jobId);
+    if (entry) {
+      entry.job.executionId = executionId;
+    }
+  }
+
+  startJob(jobId: string): void {
+    const entry = this.jobs.get(jobId);
+    if (!entry || this.isJobFinished(entry.job)) {
+      return;
+    }
+
+    entry.job.status = 'running';
+    entry.job.startedAt = Date.now();
+  }
+
+  appendJobEvent(jobId: string, event: StreamEvent): void {
+    const entry = this.jobs.get(jobId);
+    if (!entry || this.isJobFinished(entry.job)) {
+      return;
+    }
+
+    const buffered = entry.events.push(event);
+    if (event.type === 'result') {
+      entry.job.result = event;
+    } else if (event.type === 'structured_result') {
+      const { type: _type, ...structured } = event;
+      entry.job.structured = structured;
+    }
+    entry.emitter.emit('event', buffered);
+  }
+
+  finishJob(jobId: string, status: JobStatus, error?: string): void {
+    const entry = this.jobs.get(jobId);
+    if (!entry || this.isJobFinished(entry.job)) {
+      return;
+    }
+
+    entry.job.status = status;
+    entry.job.error = error;
+    entry.job.finishedAt = Date.now();
+    entry.emitter.emit('done', entry.job);
+  }
+
+  cancelJob(jobId: string): boolean {
+    const entry = this.jobs.get(jobId);
+    if (!entry || this.isJobFinished(entry.job)) {
+      return false;
+    }
+
+    if (entry.job.executionId) {
+      this.cancel(entry.job.executionId);
+    }
+
+    this.finishJob(jobId, 'cancelled');
+    return true;
+  }
+
+  isJobFinished(job: Job): boolean {
+    return TERMINAL_JOB_STATUSES.includes(job.status);
+  }
+
+  private pruneJobs(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+
+    for (const [id, entry] of this.jobs) {
+      if (entry.job.finishedAt && entry.job.finishedAt < cutoff) {
+        entry.emitter.removeAllListeners();
+        this.jobs.delete(id);
+      }
+    }
   }
 
   cleanup(): void {
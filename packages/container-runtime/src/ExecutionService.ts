@@ -1,9 +1,16 @@
 import { WorkspaceManager } from './WorkspaceManager.js';
-import { ClaudeExecutor, StreamingExecution } from './ClaudeExecutor.js';
+import { ClaudeExecutor, StreamingExecution, StreamingExecutionHandle } from './ClaudeExecutor.js';
 import { SessionManager } from './SessionManager.js';
-import { ExecuteRequest, ExecuteResponse, StreamEvent } from './types.js';
+import { ExecuteRequest, ExecuteResponse, Job, ResultEvent, RunOptions, StreamEvent } from './types.js';
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 import { executionRegistry } from './ExecutionRegistry.js';
+import { ExecutionQueue, QueueStats } from './ExecutionQueue.js';
+import { UsageLedger } from './UsageLedger.js';
+import { QuotaManager, QuotaStatus } from './QuotaManager.js';
+import { TranscriptStore } from './TranscriptStore.js';
+import { WorkspaceBaseline, WorkspaceChangeTracker } from './WorkspaceChangeTracker.js';
+import { CommandDiscovery } from './CommandDiscovery.js';
 
 export interface StreamingExecutionResult {
   emitter: StreamingExecution;
@@ -22,49 +29,97 @@ export class ExecutionService {
   private readonly workspaceManager: WorkspaceManager;
   private readonly executor: ClaudeExecutor;
   private readonly sessionManager: SessionManager;
+  private readonly queue: ExecutionQueue;
+  private readonly usageLedger: UsageLedger;
+  private readonly quotaManager: QuotaManager;
+  private readonly transcriptStore: TranscriptStore;
+  private readonly commandDiscovery: CommandDiscovery;
+  private readonly changeTracker = new WorkspaceChangeTracker();
 
   constructor(
     workspaceManager: WorkspaceManager,
     executor: ClaudeExecutor,
-    sessionManager: SessionManager
+    sessionManager: SessionManager,
+    queue: ExecutionQueue,
+    usageLedger: UsageLedger,
+    quotaManager: QuotaManager,
+    transcriptStore: TranscriptStore,
+    commandDiscovery: CommandDiscovery
   ) {
     this.workspaceManager = workspaceManager;
     this.executor = executor;
     this.sessionManager = sessionManager;
+    this.queue = queue;
+    this.usageLedger = usageLedger;
+    this.quotaManager = quotaManager;
+    this.transcriptStore = transcriptStore;
+    this.commandDiscovery = commandDiscovery;
   }
 
   async execute(request: ExecuteRequest): Promise<ExecuteResponse> {
     const startTime = Date.now();
+    const executionId = randomUUID();
 
-    // Use session-based execution if sessionId provided
-    if (request.sessionId) {
-      return this.executeWithSession(request, startTime);
+    await this.resolveOutputSchema(request);
+    this.quotaManager.check(request.callerId);
+    this.assertSessionAccess(request);
+
+    // Throws QueueFullError when there is no room left to wait
+    const ticket = this.queue.enqueue(request.sessionId);
+    const revokeAdmission = this.quotaManager.admit(request.callerId);
+    await ticket.ready;
+
+    try {
+      // Use session-based execution if sessionId provided
+      const response = request.sessionId
+        ? await this.executeWithSession(executionId, request, startTime)
+        : await this.executeStateless(request, startTime);
+
+      this.recordFromResponse(executionId, request, response);
+
+      return response;
+    } catch (error) {
+      // Refused before it ran, e.g. the session was claimed while this waited
+      revokeAdmission();
+      throw error;
+    } finally {
+      ticket.release();
     }
+  }
+
+  getQueueStats(): QueueStats {
+    return this.queue.getStats();
+  }
 
-    // Legacy: stateless execution
-    return this.executeStateless(request, startTime);
+  getQuotaStatus(callerId: string): QuotaStatus {
+    return this.quotaManager.getStatus(callerId);
   }
 
   private async executeWithSession(
+    executionId: string,
     request: ExecuteRequest,
     startTime: number
   ): Promise<ExecuteResponse> {
-    try {
-      const session = await this.sessionManager.getOrCreate(
-        request.sessionId!,
-        request.files,
-        request.apiKey
-      );
+    const session = await this.sessionManager.getOrCreate(
+      request.sessionId!,
+      request.files,
+      request.apiKey,
+      request.callerId
+    );
 
-      const output = await this.sessionManager.execute(
+    try {
+      const result = await this.sessionManager.execute(
         session,
-        request.prompt
+        request.prompt,
+        executionId,
+        this.runOptions(request)
       );
 
       return {
         success: true,
-        output,
+        output: result.output,
         executionTime: Date.now() - startTime,
+        structured: result.structured,
       };
     } catch (error) {
       return {
@@ -89,17 +144,18 @@ export class ExecutionService {
         await this.workspaceManager.writeFiles(workspacePath, request.files);
       }
 
-      const result = await this.executor.execute(
+      const result = await this.executor.execute({
+        ...this.runOptions(request),
         workspacePath,
-        request.prompt,
-        request.timeout,
-        request.apiKey
-      );
+        prompt: request.prompt,
+        apiKey: request.apiKey,
+      });
 
       return {
         success: true,
         output: result.output,
         executionTime: Date.now() - startTime,
+        structured: result.structured,
       };
     } catch (error) {
       return {
@@ -115,16 +171,60 @@ export class ExecutionService {
     }
   }
 
+  /**
+   * Queue a streaming execution and return its emitter right away. While the
+   * execution waits for a slot it emits `queued` events with its position.
+   */
   async executeStreaming(request: ExecuteRequest): Promise<StreamingExecutionResult> {
+    await this.resolveOutputSchema(request);
+    this.quotaManager.check(request.callerId);
+    this.assertSessionAccess(request);
+
     const emitter = new EventEmitter() as StreamingExecution;
+    const executionId = randomUUID();
 
-    // Use session-based streaming if sessionId provided
-    if (request.sessionId) {
-      const executionId = await this.executeStreamingWithSession(request, emitter);
-      return { emitter, executionId };
-    }
+    // Throws QueueFullError when there is no room left to wait
+    const ticket = this.queue.enqueue(request.sessionId, (position) => {
+      emitter.emit('event', { type: 'queued', ...position });
+    });
+    const revokeAdmission = this.quotaManager.admit(request.callerId);
+
+    this.trackUsage(executionId, request, emitter);
+
+    // Free the slot (or leave the queue) however the execution ends
+    emitter.on('end', ticket.release);
+    emitter.on('error', ticket.release);
+    emitter.on('cancelled', ticket.release);
+
+    executionRegistry.registerQueued(executionId, ticket.release, request.sessionId, emitter, request.callerId);
+
+    ticket.ready
+      .then(() => {
+        emitter.emit('started');
+
+        // Use session-based streaming if sessionId provided
+        if (request.sessionId) {
+          return this.executeStreamingWithSession(executionId, request, emitter);
+        }
+
+        // Legacy: stateless streaming
+        return this.executeStreamingStateless(executionId, request, emitter);
+      })
+      .catch((error) => {
+        // Nothing ran, so the run does not count against the hourly limit
+        revokeAdmission();
+        executionRegistry.unregister(executionId);
+        emitter.emit('error', error instanceof Error ? error : new Error(String(error)));
+      });
 
-    // Legacy: stateless streaming
+    return { emitter, executionId };
+  }
+
+  private async executeStreamingStateless(
+    executionId: string,
+    request: ExecuteRequest,
+    emitter: StreamingExecution
+  ): Promise<void> {
     let workspacePath: string | null = null;
 
     try {
@@ -133,85 +233,262 @@ export class ExecutionService {
       if (request.files?.length) {
         await this.workspaceManager.writeFiles(workspacePath, request.files);
       }
+    } catch (error) {
+      if (workspacePath) {
+        await this.workspaceManager.cleanup(workspacePath);
+      }
+      throw error;
+    }
+
+    // Cancelled while the workspace was being prepared
+    if (!executionRegistry.get(executionId)) {
+      await this.workspaceManager.cleanup(workspacePath);
+      return;
+    }
 
-      const handle = this.executor.executeStreaming(
+    const baseline = await this.captureWorkspace(workspacePath);
+    const handle = this.executor.executeStreaming(
+      {
+        ...this.runOptions(request),
         workspacePath,
-        request.prompt,
-        request.timeout,
-        request.apiKey
-      );
+        prompt: request.prompt,
+        apiKey: request.apiKey,
+      },
+      executionId
+    );
+
+    handle.emitter.on('event', (event) => emitter.emit('event', event));
+    this.finishWith(handle, emitter, request, baseline, () =>
+      this.workspaceManager.cleanup(workspacePath!)
+    );
+  }
 
-      // Register with execution registry
-      executionRegistry.register(handle.executionId, handle.process, request.sessionId, emitter);
+  /**
+   * Register a started run and end the client-facing stream when it does.
+   * Cancellations are reported by the registry, which emits 'cancelled' on
+   * the stream itself.
+   */
+  private finishWith(
+    handle: StreamingExecutionHandle,
+    emitter: StreamingExecution,
+    request: ExecuteRequest,
+    baseline: WorkspaceBaseline | null,
+    cleanup: () => void = () => {}
+  ): void {
+    // Cancelled while the run was being set up
+    if (!executionRegistry.get(handle.executionId)) {
+      handle.cancel();
+    } else {
+      executionRegistry.register(handle.executionId, handle, request.sessionId, emitter, request.callerId);
+    }
 
-      handle.emitter.on('data', (chunk) => emitter.emit('data', chunk));
-      handle.emitter.on('event', (event) => emitter.emit('event', event));
+    handle.emitter.on('data', (chunk) => emitter.emit('data', chunk));
 
-      handle.emitter.on('end', () => {
-        if (workspacePath) {
-          this.workspaceManager.cleanup(workspacePath);
-        }
-        emitter.emit('end');
-      });
+    handle.emitter.on('end', async () => {
+      await this.emitWorkspaceChanges(emitter, baseline);
+      cleanup();
+      emitter.emit('end');
+    });
 
-      handle.emitter.on('error', (error) => {
-        if (workspacePath) {
-          this.workspaceManager.cleanup(workspacePath);
-        }
-        emitter.emit('error', error);
-      });
+    handle.emitter.on('error', (error) => {
+      cleanup();
+      emitter.emit('error', error);
+    });
 
-      handle.emitter.on('cancelled', () => {
-        if (workspacePath) {
-          this.workspaceManager.cleanup(workspacePath);
-        }
-        emitter.emit('cancelled');
-      });
+    handle.emitter.on('cancelled', cleanup);
+  }
 
-      return { emitter, executionId: handle.executionId };
+  private async captureWorkspace(workspacePath: string): Promise<WorkspaceBaseline | null> {
+    try {
+      return await this.changeTracker.capture(workspacePath);
+    } catch (error) {
+      console.error('Failed to capture workspace state:', (error as Error).message);
+      return null;
+    }
+  }
+
+  // Tell clients which files the run changed, just before the stream ends
+  private async emitWorkspaceChanges(
+    emitter: StreamingExecution,
+    baseline: WorkspaceBaseline | null
+  ): Promise<void> {
+    if (!baseline) {
+      return;
+    }
 
+    try {
+      const { changes, truncated } = await this.changeTracker.compare(baseline);
+      emitter.emit('event', { type: 'workspace_changes', changes, truncated });
     } catch (error) {
-      if (workspacePath) {
-        await this.workspaceManager.cleanup(workspacePath);
-      }
-      process.nextTick(() => {
-        emitter.emit('error', error instanceof Error ? error : new Error(String(error)));
-      });
-      return { emitter, executionId: '' };
+      console.error('Failed to compare workspace state:', (error as Error).message);
     }
   }
 
-  private async executeStreamingWithSession(
+  // Refuse other callers' sessions before the run is queued or counted
+  private assertSessionAccess(request: ExecuteRequest): void {
+    if (request.sessionId) {
+      this.sessionManager.assertAccess(request.sessionId, request.callerId);
+    }
+  }
+
+  // Requests without a schema of their own use the one their slash command declares
+  private async resolveOutputSchema(request: ExecuteRequest): Promise<void> {
+    request.outputSchema ??= await this.commandDiscovery.outputSchemaFor(request.prompt);
+  }
+
+  private runOptions(request: ExecuteRequest): RunOptions {
+    const { timeout, model, fallbackModel, maxTurns, appendSystemPrompt, outputSchema } = request;
+    return { timeout, model, fallbackModel, maxTurns, appendSystemPrompt, outputSchema };
+  }
+
+  private recordUsage(
+    executionId: string,
     request: ExecuteRequest,
-    emitter: StreamingExecution
-  ): Promise<string> {
-    const { randomUUID } = await import('crypto');
-    const executionId = randomUUID();
+    results: ResultEvent[],
+    failed: boolean
+  ): void {
+    if (!request.callerId) {
+      return;
+    }
+
+    this.usageLedger.record(executionId, request.callerId, request.sessionId, request.prompt, results, failed);
+  }
 
+  /**
+   * Record one ledger row once the execution ends, however it ends. A
+   * structured output retry brings a second result, which is added up.
+   */
+  private trackUsage(executionId: string, request: ExecuteRequest, emitter: StreamingExecution): void {
+    const results: ResultEvent[] = [];
+    let recorded = false;
+
+    const record = (failed: boolean) => {
+      if (!recorded) {
+        recorded = true;
+        this.recordUsage(executionId, request, results, failed);
+      }
+    };
+
+    emitter.on('event', (event) => {
+      if (event.type === 'result') {
+        results.push(event);
+      }
+    });
+    emitter.on('end', () => record(false));
+    emitter.on('error', () => record(true));
+    emitter.on('cancelled', () => record(true));
+  }
+
+  // Non-streaming runs print a single JSON result object, unless they failed
+  private recordFromResponse(executionId: string, request: ExecuteRequest, response: ExecuteResponse): void {
+    const result = response.success ? this.parseResult(response.output) : null;
+
+    this.recordUsage(executionId, request, result ? [result] : [], !response.success);
+
+    if (result && request.sessionId) {
+      this.transcriptStore.appendPrompt(request.sessionId, executionId, request.prompt);
+      this.transcriptStore.appendEvent(request.sessionId, executionId, result);
+    }
+  }
+
+  private parseResult(output: string): ResultEvent | null {
     try {
-      const session = await this.sessionManager.getOrCreate(
-        request.sessionId!,
-        request.files,
-        request.apiKey
-      );
+      const result = JSON.parse(output) as ResultEvent;
+      return result.type === 'result' ? result : null;
+    } catch {
+      // Output was not JSON
+      return null;
+    }
+  }
 
-      const result = await this.sessionManager.executeStreaming(
-        session,
-        request.prompt,
-        (event) => emitter.emit('event', event),
-        executionId
+  /**
+   * Start an execution detached from the calling request. Events and the
+   * final result are collected on the job so callers can poll or reattach.
+   */
+  async startJob(request: ExecuteRequest): Promise<Job> {
+    // Reject up front so the caller gets an error response rather than a failed job
+    this.quotaManager.check(request.callerId);
+    this.assertSessionAccess(request);
+    this.queue.assertCapacity();
+
+    const job = executionRegistry.createJob(request.sessionId, request.callerId);
+
+    this.runJob(job.id, request).catch((error) => {
+      executionRegistry.finishJob(
+        job.id,
+        'failed',
+        error instanceof Error ? error.message : String(error)
       );
+    });
+
+    return job;
+  }
+
+  private async runJob(jobId: string, request: ExecuteRequest): Promise<void> {
+    const { emitter, executionId } = await this.executeStreaming(request);
 
-      // Register process if returned
-      if (result.process) {
-        executionRegistry.register(executionId, result.process, request.sessionId, emitter);
+    // Job may have been cancelled before the execution was queued
+    const job = executionRegistry.getJob(jobId);
+    if (!job || executionRegistry.isJobFinished(job)) {
+      executionRegistry.cancel(executionId);
+      return;
+    }
+
+    executionRegistry.attachJobExecution(jobId, executionId);
+
+    emitter.on('started', () => executionRegistry.startJob(jobId));
+
+    emitter.on('event', (event) => executionRegistry.appendJobEvent(jobId, event));
+
+    emitter.on('end', () => {
+      const result = executionRegistry.getJob(jobId)?.result;
+      if (result?.is_error) {
+        executionRegistry.finishJob(jobId, 'failed', result.result);
+      } else {
+        executionRegistry.finishJob(jobId, 'succeeded');
       }
+    });
 
-      emitter.emit('end');
-    } catch (error) {
-      emitter.emit('error', error instanceof Error ? error : new Error(String(error)));
+    emitter.on('error', (error) => {
+      executionRegistry.finishJob(jobId, 'failed', error.message);
+    });
+
+    emitter.on('cancelled', () => {
+      executionRegistry.finishJob(jobId, 'cancelled');
+    });
+  }
+
+  private async executeStreamingWithSession(
+    executionId: string,
+    request: ExecuteRequest,
+    emitter: StreamingExecution
+  ): Promise<void> {
+    const session = await this.sessionManager.getOrCreate(
+      request.sessionId!,
+      request.files,
+      request.apiKey,
+      request.callerId
+    );
+
+    // Only recorded once the session is known to be the caller's
+    const sessionId = session.id;
+    this.transcriptStore.appendPrompt(sessionId, executionId, request.prompt);
+    emitter.on('event', (event) => this.transcriptStore.appendEvent(sessionId, executionId, event));
+
+    // Cancelled while the session was being prepared
+    if (!executionRegistry.get(executionId)) {
+      return;
     }
 
-    return executionId;
+    const baseline = await this.captureWorkspace(session.workspacePath);
+    const handle = await this.sessionManager.executeStreaming(
+      session,
+      request.prompt,
+      (event) => emitter.emit('event', event),
+      executionId,
+      this.runOptions(request)
+    );
+
+    this.finishWith(handle, emitter, request, baseline);
   }
 }
@@ -0,0 +1,59 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileTreeNode } from './types.js';
+
+/**
+ * Builds a nested FileTreeNode listing of a directory, skipping hidden entries.
+ */
+export class FileTreeBuilder {
+  async build(dirPath: string): Promise<FileTreeNode> {
+    const stats = await fs.stat(dirPath);
+    const name = path.basename(dirPath);
+
+    if (!stats.isDirectory()) {
+      return {
+        name,
+        type: 'file',
+        size: stats.size,
+      };
+    }
+
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    const children: FileTreeNode[] = [];
+
+    for (const entry of entries) {
+      // Skip hidden files and directories
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        const subTree = await this.build(entryPath);
+        children.push(subTree);
+      } else if (entry.isFile()) {
+        const fileStats = await fs.stat(entryPath);
+        children.push({
+          name: entry.name,
+          type: 'file',
+          size: fileStats.size,
+        });
+      }
+    }
+
+    // Sort: directories first, then files, alphabetically
+    children.sort((a, b) => {
+      if (a.type !== b.type) {
+        return a.type === 'directory' ? -1 : 1;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return {
+      name,
+      type: 'directory',
+      children,
+    };
+  }
+}
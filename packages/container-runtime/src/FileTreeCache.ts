@@ -0,0 +1,53 @@
+import { watch, FSWatcher } from 'fs';
+import { FileTreeNode } from './types.js';
+import { FileTreeBuilder } from './FileTreeBuilder.js';
+
+interface CacheEntry {
+  tree: Promise<FileTreeNode>;
+  watcher: FSWatcher;
+}
+
+/**
+ * Keeps built trees of directories that rarely change, and drops a tree as
+ * soon as a filesystem watcher reports anything changing under it. Where
+ * watching is not possible the tree is simply rebuilt on every call.
+ */
+export class FileTreeCache {
+  private readonly fileTreeBuilder: FileTreeBuilder;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(fileTreeBuilder: FileTreeBuilder) {
+    this.fileTreeBuilder = fileTreeBuilder;
+  }
+
+  get(dirPath: string): Promise<FileTreeNode> {
+    const cached = this.entries.get(dirPath);
+    if (cached) {
+      return cached.tree;
+    }
+
+    // Watch before building, so changes made during the build are not missed
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dirPath, { recursive: true, persistent: false });
+    } catch {
+      return this.fileTreeBuilder.build(dirPath);
+    }
+
+    const entry: CacheEntry = { tree: this.fileTreeBuilder.build(dirPath), watcher };
+    this.entries.set(dirPath, entry);
+
+    watcher.on('change', () => this.invalidate(dirPath, entry));
+    watcher.on('error', () => this.invalidate(dirPath, entry));
+    entry.tree.catch(() => this.invalidate(dirPath, entry));
+
+    return entry.tree;
+  }
+
+  private invalidate(dirPath: string, entry: CacheEntry): void {
+    entry.watcher.close();
+    if (this.entries.get(dirPath) === entry) {
+      this.entries.delete(dirPath);
+    }
+  }
+}
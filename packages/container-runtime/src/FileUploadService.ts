@@ -0,0 +1,106 @@
+import { IncomingMessage } from 'http';
+import busboy from 'busboy';
+import { WorkspaceManager } from './WorkspaceManager.js';
+import { RuntimeError } from './errors.js';
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  maxFiles: number;
+}
+
+export interface UploadedFile {
+  path: string;
+  size: number;
+}
+
+/**
+ * Streams multipart/form-data uploads straight into a workspace. Each part's
+ * filename is used as its path relative to the workspace root.
+ */
+export class FileUploadService {
+  private readonly workspaceManager: WorkspaceManager;
+  private readonly limits: UploadLimits;
+
+  constructor(workspaceManager: WorkspaceManager, limits: UploadLimits) {
+    this.workspaceManager = workspaceManager;
+    this.limits = limits;
+  }
+
+  receive(req: IncomingMessage, workspacePath: string): Promise<UploadedFile[]> {
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({
+          headers: req.headers,
+          // Keep directories in filenames; WorkspaceManager rejects traversal
+          preservePath: true,
+          limits: { fileSize: this.limits.maxFileBytes, files: this.limits.maxFiles },
+        });
+      } catch {
+        reject(new Error('Expected a multipart/form-data body'));
+        return;
+      }
+
+      const writes: Promise<UploadedFile | null>[] = [];
+      let failure: Error | null = null;
+
+      parser.on('file', (_field, stream, info) => {
+        if (failure) {
+          stream.resume();
+          return;
+        }
+
+        let truncated = false;
+        stream.on('limit', () => {
+          truncated = true;
+        });
+
+        writes.push(
+          this.workspaceManager
+            .writeStream(workspacePath, info.filename, stream)
+            .then(async (size) => {
+              // Busboy cuts the stream short at the limit, so drop the partial file
+              if (truncated) {
+                await this.workspaceManager.removeFile(workspacePath, info.filename);
+                throw new RuntimeError(
+                  `${info.filename} exceeds the upload limit of ${this.limits.maxFileBytes} bytes`,
+                  'FILE_TOO_LARGE',
+                  413,
+                  { limit: this.limits.maxFileBytes }
+                );
+              }
+              return { path: info.filename, size };
+            })
+            .catch((error: Error) => {
+              // Keep the parser moving past a part we could not write
+              stream.resume();
+              failure ??= error;
+              return null;
+            })
+        );
+      });
+
+      parser.on('filesLimit', () => {
+        failure ??= new RuntimeError(
+          `At most ${this.limits.maxFiles} files can be uploaded at once`,
+          'TOO_MANY_FILES',
+          413,
+          { limit: this.limits.maxFiles }
+        );
+      });
+
+      parser.on('error', (error: Error) => reject(error));
+
+      parser.on('close', async () => {
+        const uploaded = await Promise.all(writes);
+        if (failure) {
+          reject(failure);
+        } else {
+          resolve(uploaded.filter((file): file is UploadedFile => file !== null));
+        }
+      });
+
+      req.pipe(parser);
+    });
+  }
+}
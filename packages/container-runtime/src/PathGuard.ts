@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RuntimeError, UnsafePathError } from './errors.js';
+
+// Plugin files that steer Claude; callers may read but never replace them
+export const PROTECTED_PLUGIN_PATHS = ['CLAUDE.md', '.claude'];
+
+/**
+ * Resolves client-supplied relative paths against a root directory. Rejects
+ * absolute paths, `..` traversal and symlinks pointing outside the root, and
+ * for writes also anything under a protected path.
+ */
+export class PathGuard {
+  private readonly root: string;
+  private readonly protectedPaths: string[];
+
+  constructor(root: string, protectedPaths: string[] = []) {
+    this.root = path.resolve(root);
+    this.protectedPaths = protectedPaths;
+  }
+
+  async resolveForRead(relativePath: string): Promise<string> {
+    const resolved = this.resolveLexically(relativePath);
+    await this.realRelative(resolved);
+    return resolved;
+  }
+
+  async resolveForWrite(relativePath: string): Promise<string> {
+    const resolved = this.resolveLexically(relativePath);
+
+    // Check both the requested path and where it really lands, so a symlink
+    // inside the root cannot be used to reach a protected file
+    this.assertNotProtected(path.relative(this.root, resolved));
+    this.assertNotProtected(await this.realRelative(resolved));
+
+    return resolved;
+  }
+
+  /**
+   * Like resolveForRead, but protected paths, also when reached through a
+   * symlink, look like missing files. For reads that must not reveal them.
+   */
+  async resolveUnprotected(relativePath: string): Promise<string> {
+    const resolved = this.resolveLexically(relativePath);
+    const real = await this.realRelative(resolved);
+
+    if (this.isProtected(path.relative(this.root, resolved)) || this.isProtected(real)) {
+      throw new RuntimeError('File not found', 'FILE_NOT_FOUND', 404);
+    }
+
+    return resolved;
+  }
+
+  // Whether a path relative to the root is, or is under, a protected path
+  isProtected(relative: string): boolean {
+    return this.protectedPathFor(relative) !== undefined;
+  }
+
+  private resolveLexically(relativePath: string): string {
+    if (typeof relativePath !== 'string' || relativePath.trim() === '') {
+      throw new UnsafePathError('File path is required');
+    }
+    if (relativePath.includes('\0')) {
+      throw new UnsafePathError('File path contains a null byte');
+    }
+    if (path.isAbsolute(relativePath) || /^[a-zA-Z]:[\\/]/.test(relativePath)) {
+      throw new UnsafePathError('File path must be relative');
+    }
+
+    const resolved = path.resolve(this.root, relativePath);
+    if (!this.isInside(this.root, resolved)) {
+      throw new UnsafePathError('File path is outside the allowed directory');
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Path of the target relative to the real root, after following symlinks.
+   * Missing trailing segments are fine (a file about to be created), but the
+   * part that exists must stay inside the root.
+   */
+  private async realRelative(resolved: string): Promise<string> {
+    const realRoot = await fs.realpath(this.root).catch(() => this.root);
+
+    let existing = resolved;
+    const missing: string[] = [];
+    for (;;) {
+      try {
+        existing = await fs.realpath(existing);
+        break;
+      } catch {
+        if (existing === this.root) {
+          return path.relative(this.root, resolved);
+        }
+        missing.unshift(path.basename(existing));
+        existing = path.dirname(existing);
+      }
+    }
+
+    const real = path.join(existing, ...missing);
+    if (!this.isInside(realRoot, real)) {
+      throw new UnsafePathError('File path leads outside the allowed directory through a symlink');
+    }
+
+    return path.relative(realRoot, real);
+  }
+
+  private assertNotProtected(relative: string): void {
+    const protectedPath = this.protectedPathFor(relative);
+    if (protectedPath) {
+      throw new UnsafePathError(`${protectedPath} is protected and cannot be modified`, 'PROTECTED_PATH');
+    }
+  }
+
+  private protectedPathFor(relative: string): string | undefined {
+    const segments = relative.split(path.sep);
+
+    return this.protectedPaths.find((protectedPath) =>
+      protectedPath
+        .split('/')
+        .every((segment, index) => segments[index]?.toLowerCase() === segment.toLowerCase())
+    );
+  }
+
+  private isInside(root: string, target: string): boolean {
+    return target.startsWith(root + path.sep);
+  }
+}
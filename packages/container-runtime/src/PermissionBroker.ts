@@ -0,0 +1,179 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { RuntimeError } from './errors.js';
+import { executionRegistry } from './ExecutionRegistry.js';
+
+export type PermissionDecision = 'allow' | 'deny';
+
+// What Claude's permission prompt tool expects back
+export type PermissionPromptResult =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
+export interface PermissionRequest {
+  id: string;
+  executionId: string;
+  sessionId?: string;
+  // Caller that started the run; only they may answer
+  callerId?: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  expiresAt: number;
+}
+
+interface PendingRequest extends PermissionRequest {
+  resolve: (result: PermissionPromptResult) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Where a run's permission prompt tool asks, and how it authenticates
+export interface PermissionPromptEndpoint {
+  url: string;
+  token: string;
+}
+
+/**
+ * Connects Claude's permission prompt tool with the people watching a run.
+ * A tool call Claude needs approval for pauses the run and shows up on its
+ * stream as a `permission_request` event until a client answers, or it
+ * times out and is denied.
+ */
+export class PermissionBroker {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  // Prompt tool token -> execution
+  private readonly tokens = new Map<string, string>();
+  private readonly pending = new Map<string, PendingRequest>();
+  // Tools a user allowed for the rest of their session
+  private readonly remembered = new Map<string, Set<string>>();
+
+  constructor(baseUrl: string, timeoutMs: number) {
+    this.baseUrl = baseUrl;
+    this.timeoutMs = timeoutMs;
+  }
+
+  open(executionId: string): PermissionPromptEndpoint {
+    const token = randomBytes(24).toString('hex');
+    this.tokens.set(token, executionId);
+    return { url: `${this.baseUrl}/internal/permission-prompts`, token };
+  }
+
+  // Called when the run is over; anything still waiting is denied
+  close(executionId: string): void {
+    for (const [token, id] of this.tokens) {
+      if (id === executionId) {
+        this.tokens.delete(token);
+      }
+    }
+
+    for (const request of this.pending.values()) {
+      if (request.executionId === executionId) {
+        this.settle(request, 'deny', 'The run ended before the request was answered');
+      }
+    }
+  }
+
+  /**
+   * Ask whoever follows the run. Resolves once a client answers, the
+   * request times out or the run ends.
+   */
+  async request(
+    token: string,
+    toolName: string,
+    input: Record<string, unknown>
+  ): Promise<PermissionPromptResult> {
+    const executionId = this.tokens.get(token);
+    if (!executionId) {
+      throw new RuntimeError('Unknown permission prompt token', 'PERMISSION_TOKEN_INVALID', 401);
+    }
+
+    const execution = executionRegistry.get(executionId);
+    const sessionId = execution?.sessionId;
+
+    if (sessionId && this.remembered.get(sessionId)?.has(toolName)) {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    // Non-streaming runs have nobody to ask
+    if (!execution?.emitter) {
+      return { behavior: 'deny', message: 'Nobody is following this run to approve the tool' };
+    }
+    const emitter = execution.emitter;
+
+    return new Promise((resolve) => {
+      const request: PendingRequest = {
+        id: randomUUID(),
+        executionId,
+        sessionId,
+        callerId: execution.callerId,
+        toolName,
+        input,
+        expiresAt: Date.now() + this.timeoutMs,
+        resolve,
+        timer: setTimeout(() => this.settle(request, 'deny', 'The request timed out'), this.timeoutMs),
+      };
+      this.pending.set(request.id, request);
+
+      emitter.emit('event', {
+        type: 'permission_request',
+        requestId: request.id,
+        toolName,
+        input,
+        expiresAt: request.expiresAt,
+      });
+    });
+  }
+
+  // A pending request, if it belongs to callerId
+  get(requestId: string, callerId: string): PermissionRequest | undefined {
+    const request = this.pending.get(requestId);
+    if (!request || request.callerId !== callerId) {
+      return undefined;
+    }
+
+    const { resolve: _resolve, timer: _timer, ...details } = request;
+    return details;
+  }
+
+  /**
+   * Answer a pending request. With remember, the tool is allowed without
+   * asking for the rest of the session. Returns false if nothing is waiting.
+   */
+  respond(requestId: string, decision: PermissionDecision, remember: boolean = false): boolean {
+    const request = this.pending.get(requestId);
+    if (!request) {
+      return false;
+    }
+
+    if (decision === 'allow' && remember && request.sessionId) {
+      const tools = this.remembered.get(request.sessionId) ?? new Set<string>();
+      tools.add(request.toolName);
+      this.remembered.set(request.sessionId, tools);
+    }
+
+    this.settle(request, decision, 'Denied by the user');
+    return true;
+  }
+
+  forgetSession(sessionId: string): void {
+    this.remembered.delete(sessionId);
+  }
+
+  private settle(request: PendingRequest, decision: PermissionDecision, denyMessage: string): void {
+    if (!this.pending.delete(request.id)) {
+      return;
+    }
+    clearTimeout(request.timer);
+
+    executionRegistry.get(request.executionId)?.emitter?.emit('event', {
+      type: 'permission_resolved',
+      requestId: request.id,
+      decision,
+    });
+
+    request.resolve(
+      decision === 'allow'
+        ? { behavior: 'allow', updatedInput: request.input }
+        : { behavior: 'deny', message: denyMessage }
+    );
+  }
+}
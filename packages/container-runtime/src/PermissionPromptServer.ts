@@ -0,0 +1,136 @@
+import { createInterface } from 'readline';
+import { fileURLToPath } from 'url';
+import { PermissionPromptResult } from './PermissionBroker.js';
+
+export const PERMISSION_PROMPT_SERVER = 'bazaar';
+export const PERMISSION_PROMPT_TOOL = 'approval_prompt';
+
+const TOOL = {
+  name: PERMISSION_PROMPT_TOOL,
+  description: 'Asks the user following the run whether a tool may be used',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool_name: { type: 'string' },
+      input: { type: 'object' },
+      tool_use_id: { type: 'string' },
+    },
+    required: ['tool_name', 'input'],
+  },
+};
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+class RpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * Minimal MCP server on stdio that offers Claude's permission prompt tool.
+ * Claude starts one per run that asks the user (see CliExecutorBackend), and
+ * every call is forwarded to the runtime, which holds it until answered.
+ */
+export class PermissionPromptServer {
+  private readonly url: string;
+  private readonly token: string;
+
+  constructor(url: string, token: string) {
+    this.url = url;
+    this.token = token;
+  }
+
+  listen(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout): void {
+    const rl = createInterface({ input, crlfDelay: Infinity });
+
+    rl.on('line', (line) => {
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line) as JsonRpcMessage;
+      } catch {
+        return;
+      }
+
+      this.handle(message).then((response) => {
+        if (response) {
+          output.write(JSON.stringify(response) + '\n');
+        }
+      });
+    });
+  }
+
+  private async handle(message: JsonRpcMessage): Promise<object | null> {
+    // Notifications need no answer
+    if (message.id === undefined) {
+      return null;
+    }
+
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {});
+      return { jsonrpc: '2.0', id: message.id, result };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : -32603;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: (error as Error).message } };
+    }
+  }
+
+  private async dispatch(method: string | undefined, params: Record<string, unknown>): Promise<object> {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: params.protocolVersion ?? '2024-11-05',
+          capabilities: { tools: {} },
+          serverInfo: { name: PERMISSION_PROMPT_SERVER, version: '1.0.0' },
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: [TOOL] };
+      case 'tools/call':
+        if (params.name !== PERMISSION_PROMPT_TOOL) {
+          throw new RpcError(-32602, `Unknown tool: ${params.name}`);
+        }
+        return this.ask((params.arguments ?? {}) as Record<string, unknown>);
+      default:
+        throw new RpcError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  // Anything going wrong on the way denies the tool
+  private async ask(args: Record<string, unknown>): Promise<object> {
+    let result: PermissionPromptResult;
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+        body: JSON.stringify({ toolName: args.tool_name, input: args.input ?? {} }),
+      });
+      if (!response.ok) {
+        throw new Error(`runtime answered ${response.status}`);
+      }
+      result = (await response.json()) as PermissionPromptResult;
+    } catch (error) {
+      result = { behavior: 'deny', message: `Could not ask for approval: ${(error as Error).message}` };
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  }
+}
+
+// Claude runs this file directly, with the endpoint in its environment
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  new PermissionPromptServer(
+    process.env.BAZAAR_PERMISSION_URL ?? '',
+    process.env.BAZAAR_PERMISSION_TOKEN ?? ''
+  ).listen();
+}
@@ -28,6 +28,9 @@ export class PluginConfigLoader {
         version: config.version || '0.0.0',
         description: config.description || '',
         staticFiles: config.staticFiles,
+        quotas: config.quotas,
+        permissions: config.permissions,
+        requestOptions: config.requestOptions,
       };
     } catch (error) {
       console.error('Failed to load plugin config:', (error as Error).message);
@@ -0,0 +1,190 @@
+import { QuotaExceededError } from './errors.js';
+import { UsageLedger, UsageRecord } from './UsageLedger.js';
+import { QuotaConfig } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface QuotaWindow {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface QuotaStatus {
+  usdPerDay?: QuotaWindow;
+  usdPerMonth?: QuotaWindow;
+  executionsPerHour?: QuotaWindow;
+  maxTurnsPerRun?: number;
+}
+
+// What a caller used in the current month and hour
+interface CallerTotals {
+  // Start of the UTC day -> cost
+  costByDay: Map<number, number>;
+  // When each execution in the last hour was admitted, oldest first
+  admissions: number[];
+}
+
+/**
+ * Enforces the spending limits from claude-bazaar.config.json against the
+ * usage ledger. Days and months are calendar periods in UTC; the hourly
+ * execution limit is a rolling window counting executions when they are
+ * admitted. Totals are kept in memory, seeded from the loaded ledger and
+ * updated as rows are appended.
+ */
+export class QuotaManager {
+  private readonly quotas: QuotaConfig;
+  private readonly totals = new Map<string, CallerTotals>();
+
+  constructor(usageLedger: UsageLedger, quotas: QuotaConfig = {}) {
+    this.quotas = quotas;
+
+    const now = Date.now();
+    for (const record of usageLedger.query({ from: Math.min(startOfMonth(now), now - HOUR_MS) })) {
+      this.addCost(record);
+      // Best guess after a restart: the row is written when the run ends
+      if (record.timestamp >= now - HOUR_MS) {
+        this.totalsFor(record.callerId).admissions.push(record.timestamp);
+      }
+    }
+
+    usageLedger.on('record', (record: UsageRecord) => this.addCost(record));
+  }
+
+  /**
+   * Throws QuotaExceededError if the caller has used up any of their limits.
+   */
+  check(callerId: string | undefined): void {
+    if (!callerId) {
+      return;
+    }
+
+    const status = this.getStatus(callerId);
+
+    const exceeded: [QuotaWindow | undefined, string, string][] = [
+      [status.executionsPerHour, 'executionsPerHour', 'Hourly execution limit reached'],
+      [status.usdPerDay, 'usdPerDay', 'Daily spending limit reached'],
+      [status.usdPerMonth, 'usdPerMonth', 'Monthly spending limit reached'],
+    ];
+
+    for (const [window, limit, message] of exceeded) {
+      if (window && window.remaining <= 0) {
+        throw new QuotaExceededError(message, limit, Date.parse(window.resetAt));
+      }
+    }
+  }
+
+  /**
+   * Count an execution against the caller's hourly limit once it is queued.
+   * Returns a function that takes the admission back, for runs refused
+   * before they started.
+   */
+  admit(callerId: string | undefined): () => void {
+    if (!callerId) {
+      return () => {};
+    }
+
+    const { admissions } = this.totalsFor(callerId);
+    const admittedAt = Date.now();
+    admissions.push(admittedAt);
+
+    return () => {
+      const index = admissions.lastIndexOf(admittedAt);
+      if (index !== -1) {
+        admissions.splice(index, 1);
+      }
+    };
+  }
+
+  getStatus(callerId: string): QuotaStatus {
+    const { maxUsdPerDay, maxUsdPerMonth, maxExecutionsPerHour, maxTurnsPerRun } = this.quotas;
+    const status: QuotaStatus = { maxTurnsPerRun };
+
+    if (maxUsdPerDay === undefined && maxUsdPerMonth === undefined && maxExecutionsPerHour === undefined) {
+      return status;
+    }
+
+    const now = new Date();
+    const today = startOfDay(now.getTime());
+    const totals = this.totalsFor(callerId);
+    this.prune(totals, now.getTime());
+
+    if (maxUsdPerDay !== undefined) {
+      const used = totals.costByDay.get(today) ?? 0;
+      status.usdPerDay = this.window(maxUsdPerDay, used, today + 24 * HOUR_MS);
+    }
+
+    if (maxUsdPerMonth !== undefined) {
+      // Only days of this month are left after pruning
+      let used = 0;
+      for (const cost of totals.costByDay.values()) {
+        used += cost;
+      }
+      const startOfNextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+      status.usdPerMonth = this.window(maxUsdPerMonth, used, startOfNextMonth);
+    }
+
+    if (maxExecutionsPerHour !== undefined) {
+      const { admissions } = totals;
+      // A slot frees up once the oldest execution in the window is an hour old
+      const resetAt = admissions.length > 0 ? admissions[0] + HOUR_MS : now.getTime();
+      status.executionsPerHour = this.window(maxExecutionsPerHour, admissions.length, resetAt);
+    }
+
+    return status;
+  }
+
+  private addCost(record: UsageRecord): void {
+    if (record.costUsd <= 0) {
+      return;
+    }
+
+    const totals = this.totalsFor(record.callerId);
+    const day = startOfDay(record.timestamp);
+    totals.costByDay.set(day, (totals.costByDay.get(day) ?? 0) + record.costUsd);
+  }
+
+  // Drop days before this month and admissions older than an hour
+  private prune(totals: CallerTotals, now: number): void {
+    const thisMonth = startOfMonth(now);
+    for (const day of totals.costByDay.keys()) {
+      if (day < thisMonth) {
+        totals.costByDay.delete(day);
+      }
+    }
+
+    const hourAgo = now - HOUR_MS;
+    while (totals.admissions.length > 0 && totals.admissions[0] < hourAgo) {
+      totals.admissions.shift();
+    }
+  }
+
+  private totalsFor(callerId: string): CallerTotals {
+    let totals = this.totals.get(callerId);
+    if (!totals) {
+      totals = { costByDay: new Map(), admissions: [] };
+      this.totals.set(callerId, totals);
+    }
+    return totals;
+  }
+
+  private window(limit: number, used: number, resetAt: number): QuotaWindow {
+    return {
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetAt: new Date(resetAt).toISOString(),
+    };
+  }
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function startOfMonth(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
@@ -0,0 +1,100 @@
+import { EventEmitter } from 'events';
+import { StreamingExecution } from './ClaudeExecutor.js';
+
+export interface BufferedEvent {
+  id: number;
+  data: unknown;
+}
+
+/**
+ * Bounded log of the events sent for one execution. Every event gets a
+ * monotonically increasing ID so a client that lost its connection can ask
+ * for everything after the last ID it saw.
+ */
+export class ReplayBuffer extends EventEmitter {
+  private readonly capacity: number;
+  private readonly events: BufferedEvent[] = [];
+  private lastId = 0;
+  private closed = false;
+
+  constructor(capacity: number) {
+    super();
+    this.capacity = capacity;
+  }
+
+  /**
+   * Buffer everything a streaming execution emits, starting with an
+   * `execution_start` event and ending with stream_end, error or cancelled.
+   */
+  static fromExecution(
+    executionId: string,
+    emitter: StreamingExecution,
+    capacity: number
+  ): ReplayBuffer {
+    const buffer = new ReplayBuffer(capacity);
+
+    buffer.push({ type: 'execution_start', executionId });
+
+    emitter.on('event', (event) => buffer.push(event));
+    emitter.on('end', () => buffer.close({ type: 'stream_end' }));
+    emitter.on('error', (error) => buffer.close({ type: 'error', error: error.message }));
+    emitter.on('cancelled', () => buffer.close({ type: 'cancelled' }));
+
+    return buffer;
+  }
+
+  push(data: unknown): BufferedEvent | null {
+    if (this.closed) {
+      return null;
+    }
+
+    const event: BufferedEvent = { id: ++this.lastId, data };
+    this.events.push(event);
+
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+
+    this.emit('event', event);
+    return event;
+  }
+
+  /**
+   * Push the terminal event and stop accepting new ones.
+   */
+  close(data: unknown): void {
+    if (this.closed) {
+      return;
+    }
+
+    const event = this.push(data);
+    this.closed = true;
+    this.emit('close', event);
+  }
+
+  // ID of the newest event, 0 before the first one
+  get lastEventId(): number {
+    return this.lastId;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Events with an ID greater than afterId. `truncated` is set when some of
+   * the requested events have already been evicted from the buffer.
+   */
+  since(afterId: number): { events: BufferedEvent[]; truncated: boolean } {
+    const oldestId = this.events.length > 0 ? this.events[0].id : this.lastId + 1;
+
+    return {
+      events: this.events.filter((event) => event.id > afterId),
+      truncated: afterId + 1 < oldestId,
+    };
+  }
+
+  subscriberCount(): number {
+    return this.listenerCount('event');
+  }
+}
@@ -1,27 +1,117 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
+import { Server as HttpServer } from 'http';
 import path from 'path';
 import { ExecutionService } from './ExecutionService.js';
-import { ExecuteRequest, RuntimeConfig } from './types.js';
+import { ExecuteRequest, Job, JsonSchema, RunOptions, RuntimeConfig, StaticFileConfig } from './types.js';
 import { AuthManager } from './auth/AuthManager.js';
-import { AuthErrorResponse } from './auth/types.js';
+import { AuthConfig, AuthErrorResponse, TokenScope } from './auth/types.js';
+import { CreateTokenOptions, TOKEN_SCOPES, TokenStore } from './auth/TokenStore.js';
+import { UrlSigner } from './auth/UrlSigner.js';
 import { CommandDiscovery } from './CommandDiscovery.js';
-import { StaticFilesService } from './StaticFilesService.js';
+import { ListingOptions, StaticFilesService } from './StaticFilesService.js';
 import { executionRegistry } from './ExecutionRegistry.js';
+import { BufferedEvent, ReplayBuffer } from './ReplayBuffer.js';
+import { WebSocketGateway } from './WebSocketGateway.js';
+import { RuntimeError } from './errors.js';
+import { SessionManager } from './SessionManager.js';
+import { FileUploadService } from './FileUploadService.js';
+import { ARCHIVE_FORMATS, ArchiveFormat, WorkspaceManager } from './WorkspaceManager.js';
+import { SessionRecord } from './sessions/index.js';
+import { TranscriptStore } from './TranscriptStore.js';
+import { TRANSCRIPT_FORMATS, TranscriptFormat, TranscriptRenderer } from './TranscriptRenderer.js';
+import { PermissionBroker } from './PermissionBroker.js';
+import { StructuredOutput } from './StructuredOutput.js';
+import {
+  toCsv,
+  USAGE_GROUP_BY,
+  UsageFilter,
+  UsageGroupBy,
+  UsageLedger,
+  UsageRecord,
+  UsageSummary,
+} from './UsageLedger.js';
+
+// Callers allowed on internal endpoints
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const USAGE_RECORD_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp',
+  'executionId',
+  'callerId',
+  'sessionId',
+  'command',
+  'costUsd',
+  'durationMs',
+  'durationApiMs',
+  'numTurns',
+  'isError',
+];
+
+const USAGE_SUMMARY_COLUMNS: (keyof UsageSummary)[] = [
+  'key',
+  'executions',
+  'costUsd',
+  'durationMs',
+  'durationApiMs',
+  'numTurns',
+];
 
 export class Server {
   private readonly app: Express;
   private readonly executionService: ExecutionService;
   private readonly config: RuntimeConfig;
   private readonly authManager: AuthManager;
+  private readonly tokenStore: TokenStore;
+  private readonly urlSigner: UrlSigner;
+  private readonly usageLedger: UsageLedger;
+  private readonly sessionManager: SessionManager;
+  private readonly workspaceManager: WorkspaceManager;
+  private readonly transcriptStore: TranscriptStore;
+  private readonly transcriptRenderer: TranscriptRenderer;
   private readonly commandDiscovery: CommandDiscovery;
   private readonly staticFilesService: StaticFilesService;
+  private readonly fileUploadService: FileUploadService;
+  private readonly webSocketGateway: WebSocketGateway;
+  private readonly permissionBroker: PermissionBroker;
+  private readonly structuredOutput = new StructuredOutput();
 
-  constructor(executionService: ExecutionService, config: RuntimeConfig) {
+  constructor(
+    executionService: ExecutionService,
+    authManager: AuthManager,
+    tokenStore: TokenStore,
+    urlSigner: UrlSigner,
+    usageLedger: UsageLedger,
+    sessionManager: SessionManager,
+    workspaceManager: WorkspaceManager,
+    transcriptStore: TranscriptStore,
+    commandDiscovery: CommandDiscovery,
+    permissionBroker: PermissionBroker,
+    config: RuntimeConfig
+  ) {
     this.executionService = executionService;
     this.config = config;
-    this.authManager = new AuthManager();
-    this.commandDiscovery = new CommandDiscovery(config.pluginDir);
+    this.authManager = authManager;
+    this.tokenStore = tokenStore;
+    this.urlSigner = urlSigner;
+    this.usageLedger = usageLedger;
+    this.sessionManager = sessionManager;
+    this.workspaceManager = workspaceManager;
+    this.transcriptStore = transcriptStore;
+    this.permissionBroker = permissionBroker;
+    this.transcriptRenderer = new TranscriptRenderer();
+    this.commandDiscovery = commandDiscovery;
     this.staticFilesService = new StaticFilesService(config.pluginDir);
+    this.fileUploadService = new FileUploadService(workspaceManager, {
+      maxFileBytes: config.maxUploadFileBytes,
+      maxFiles: config.maxUploadFiles,
+    });
+    this.webSocketGateway = new WebSocketGateway(
+      executionService,
+      this.authManager,
+      permissionBroker,
+      config,
+      (body) => this.validateRequest(body)
+    );
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
@@ -32,8 +122,12 @@ export class Server {
     // CORS middleware - allow requests from any origin for development
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      res.header(
+        'Access-Control-Allow-Headers',
+        'Content-Type, Authorization, x-api-key, Last-Event-ID, Range, If-None-Match, If-Modified-Since'
+      );
+      res.header('Access-Control-Expose-Headers', 'ETag, Last-Modified, Accept-Ranges, Content-Range, Content-Disposition');
 
       if (req.method === 'OPTIONS') {
         return res.sendStatus(200);
@@ -41,17 +135,21 @@ export class Server {
       next();
     });
 
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({ limit: this.config.jsonBodyLimit }));
   }
 
   private setupRoutes(): void {
     this.app.get('/health', (_req: Request, res: Response) => {
-      res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+      res.json({
+        status: 'healthy',
+        timestamp: new Date().toISOString(),
+        queue: this.executionService.getQueueStats(),
+      });
     });
 
     // Auth status endpoint
-    this.app.get('/auth/status', (_req: Request, res: Response) => {
-      const status = this.authManager.getAuthStatus();
+    this.app.get('/auth/status', (req: Request, res: Response) => {
+      const status = this.authManager.getAuthStatus(req);
       res.json(status);
     });
 
@@ -77,18 +175,39 @@ export class Server {
         name: pluginConfig.name,
         description: pluginConfig.description,
         version: pluginConfig.version,
+        capabilities: {
+          websocket: true,
+        },
+        // Choices the web UI offers next to the prompt
+        models: pluginConfig.requestOptions?.models ?? [],
+        defaultModel: pluginConfig.requestOptions?.defaultModel,
       });
     });
 
     // Static files listing endpoint - returns nested structure of all static files
-    this.app.get('/static/files', async (_req: Request, res: Response, next: NextFunction) => {
+    // Folders requiring auth are only listed to callers who may read them. Pass
+    // ?sessionId= to include the caller's copy of per-user folders, and
+    // ?urlPath=&path=&depth=&offset=&limit= to page through large folders.
+    this.app.get('/static/files', async (req: Request, res: Response, next: NextFunction) => {
       try {
         const pluginConfig = this.config.pluginConfig;
+        const options = this.validateListingQuery(req.query);
         if (!pluginConfig?.staticFiles || pluginConfig.staticFiles.length === 0) {
           return res.json({ staticFiles: [] });
         }
 
-        const staticFiles = await this.staticFilesService.listAllStaticFiles(pluginConfig.staticFiles);
+        const visible = pluginConfig.staticFiles.filter((config) => this.canReadStaticFolder(req, config));
+        const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+
+        const staticFiles = await this.staticFilesService.listAllStaticFiles(
+          visible,
+          this.callerWorkspace(req),
+          (config, filePath) => this.staticFileUrl(config, filePath, sessionId),
+          options
+        );
+
+        // Express adds an ETag, so unchanged listings revalidate with a 304
+        res.setHeader('Cache-Control', 'private, no-cache');
         res.json({ staticFiles });
       } catch (error) {
         next(error);
@@ -97,21 +216,14 @@ export class Server {
 
     this.app.post('/execute', async (req: Request, res: Response, next: NextFunction) => {
       try {
-        // Resolve authentication
-        const auth = this.authManager.resolveAuth(req);
-
+        const auth = this.authenticate(req, res);
         if (!auth) {
-          const errorResponse: AuthErrorResponse = {
-            success: false,
-            error: 'Authentication required',
-            code: 'AUTH_REQUIRED',
-            hint: 'API key required. Go to <a href="/settings">settings</a> to add your API key.',
-          };
-          return res.status(401).json(errorResponse);
+          return;
         }
 
         const request = this.validateRequest(req.body);
         request.apiKey = auth.apiKey;
+        request.callerId = auth.callerId;
 
         const response = await this.executionService.execute(request);
 
@@ -127,69 +239,59 @@ export class Server {
 
     this.app.post('/execute/stream', async (req: Request, res: Response, next: NextFunction) => {
       try {
-        // Resolve authentication
-        const auth = this.authManager.resolveAuth(req);
-
+        const auth = this.authenticate(req, res);
         if (!auth) {
-          const errorResponse: AuthErrorResponse = {
-            success: false,
-            error: 'Authentication required',
-            code: 'AUTH_REQUIRED',
-            hint: 'API key required. Go to <a href="/settings">settings</a> to add your API key.',
-          };
-          return res.status(401).json(errorResponse);
+          return;
         }
 
         const request = this.validateRequest(req.body);
         request.apiKey = auth.apiKey;
-
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
+        request.callerId = auth.callerId;
 
         const { emitter, executionId } = await this.executionService.executeStreaming(request);
 
-        // Send execution ID as first event
-        res.write(`data: ${JSON.stringify({ type: 'execution_start', executionId })}\n\n`);
+        const buffer = ReplayBuffer.fromExecution(executionId, emitter, this.config.replayBufferSize);
+        executionRegistry.registerStream(executionId, buffer, auth.callerId);
 
-        // Forward parsed stream-json events
-        emitter.on('event', (event) => {
-          res.write(`data: ${JSON.stringify(event)}\n\n`);
-        });
-
-        emitter.on('end', () => {
-          res.write(`data: ${JSON.stringify({ type: 'stream_end' })}\n\n`);
-          res.end();
-        });
-
-        emitter.on('error', (error) => {
-          res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
-          res.end();
-        });
-
-        emitter.on('cancelled', () => {
-          res.write(`data: ${JSON.stringify({ type: 'cancelled' })}\n\n`);
-          res.end();
-        });
-
-        req.on('close', () => {
-          // Client disconnected - cancel the execution
-          executionRegistry.cancel(executionId);
-        });
+        this.pipeReplayBuffer(res, executionId, buffer, 0);
       } catch (error) {
         next(error);
       }
     });
 
+    // Reattach to a running stream, replaying events after Last-Event-ID or ?after=N
+    this.app.get('/execute/stream/:executionId', (req: Request, res: Response) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) {
+        return;
+      }
+
+      // Other callers' streams look the same as missing ones
+      const { executionId } = req.params;
+      const buffer = executionRegistry.getStream(executionId, auth.callerId);
+      if (!buffer) {
+        return res.status(404).json({ success: false, error: 'Stream not found or expired' });
+      }
+
+      this.pipeReplayBuffer(res, executionId, buffer, this.parseLastEventId(req));
+    });
+
     // Cancel execution endpoint
     this.app.post('/execute/cancel', async (req: Request, res: Response) => {
+      const auth = this.authenticate(req, res);
+      if (!auth) {
+        return;
+      }
+
       const { executionId } = req.body;
 
       if (!executionId || typeof executionId !== 'string') {
         return res.status(400).json({ success: false, error: 'executionId is required' });
       }
 
-      const cancelled = executionRegistry.cancel(executionId);
+      // Other callers' executions look the same as missing ones
+      const cancelled =
+        executionRegistry.get(executionId)?.callerId === auth.callerId && executionRegistry.cancel(executionId);
 
       if (cancelled) {
         res.json({ success: true, message: 'Execution cancelled' });
@@ -198,12 +300,523 @@ export class Server {
       }
     });
 
-    // Serve static files via /filesystem?f=path/to/file
-    this.app.get('/filesystem', (req: Request, res: Response) => {
-      const requestedPath = req.query.f as string;
+    // Claude's permission prompt tool asking on behalf of a run. Only reachable
+    // from inside the container, and held open until the request is answered
+    this.app.post('/internal/permission-prompts', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? '')) {
+          return res.status(404).json({ success: false, error: 'Not found' });
+        }
+
+        const token = (req.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+        const { toolName, input } = (req.body ?? {}) as Record<string, unknown>;
+        if (typeof toolName !== 'string' || !toolName) {
+          throw new Error('toolName is required');
+        }
+        if (input !== undefined && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+          throw new Error('input must be an object');
+        }
+
+        const result = await this.permissionBroker.request(
+          token,
+          toolName,
+          (input ?? {}) as Record<string, unknown>
+        );
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Answer a permission_request event: { decision: 'allow' | 'deny', remember? }
+    this.app.post('/permissions/:requestId', (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const auth = this.authenticate(req, res);
+        if (!auth) {
+          return;
+        }
+
+        const { decision, remember } = (req.body ?? {}) as Record<string, unknown>;
+        if (decision !== 'allow' && decision !== 'deny') {
+          throw new Error('decision must be "allow" or "deny"');
+        }
+        if (remember !== undefined && typeof remember !== 'boolean') {
+          throw new Error('remember must be a boolean');
+        }
+
+        // Requests from other callers' runs look the same as missing ones
+        const request = this.permissionBroker.get(req.params.requestId, auth.callerId);
+        if (!request) {
+          throw new RuntimeError('Permission request not found or already answered', 'PERMISSION_REQUEST_NOT_FOUND', 404);
+        }
+
+        this.permissionBroker.respond(request.id, decision, remember);
+        res.json({ success: true });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Start a detached job - survives the client disconnecting
+    this.app.post('/jobs', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const auth = this.authenticate(req, res);
+        if (!auth) {
+          return;
+        }
+
+        const request = this.validateRequest(req.body);
+        request.apiKey = auth.apiKey;
+        request.callerId = auth.callerId;
+
+        const job = await this.executionService.startJob(request);
+        res.status(202).json({ jobId: job.id, status: job.status });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Poll job status and result
+    this.app.get('/jobs/:id', (req: Request, res: Response) => {
+      const job = this.findJob(req, res);
+      if (!job) {
+        return;
+      }
+
+      res.json(this.serializeJob(job));
+    });
+
+    // Replay collected job events, then follow live until the job finishes
+    this.app.get('/jobs/:id/events', (req: Request, res: Response) => {
+      const job = this.findJob(req, res);
+      const jobEmitter = job && executionRegistry.getJobEmitter(job.id);
+      const collected = job && executionRegistry.getJobEvents(job.id, this.parseLastEventId(req));
+      if (!job || !jobEmitter || !collected) {
+        return;
+      }
+
+      this.setEventStreamHeaders(res);
+      res.write(`data: ${JSON.stringify({ type: 'job_start', jobId: job.id, status: job.status })}\n\n`);
+
+      if (collected.truncated) {
+        res.write(`data: ${JSON.stringify({ type: 'replay_truncated', jobId: job.id })}\n\n`);
+      }
+      for (const event of collected.events) {
+        this.writeEvent(res, event);
+      }
+
+      let lastEventId = collected.lastEventId;
+      const writeEnd = (finished: Job) => {
+        this.writeEvent(res, { id: lastEventId + 1, data: this.jobEndEvent(finished) });
+        res.end();
+      };
+
+      if (executionRegistry.isJobFinished(job)) {
+        return writeEnd(job);
+      }
+
+      const onEvent = (event: BufferedEvent) => {
+        lastEventId = event.id;
+        this.writeEvent(res, event);
+      };
+
+      jobEmitter.on('event', onEvent);
+      jobEmitter.once('done', writeEnd);
+
+      res.on('close', () => {
+        // Only detach the listener - the job keeps running
+        jobEmitter.off('event', onEvent);
+        jobEmitter.off('done', writeEnd);
+      });
+    });
+
+    // Cancel a job
+    this.app.delete('/jobs/:id', (req: Request, res: Response) => {
+      const job = this.findJob(req, res);
+      if (!job) {
+        return;
+      }
+
+      if (!executionRegistry.cancelJob(job.id)) {
+        return res.status(409).json({ success: false, error: `Job already ${job.status}` });
+      }
+
+      res.json({ success: true, message: 'Job cancelled' });
+    });
+
+    // Sessions, scoped to the caller. Admins can see and manage every session.
+    this.app.get('/sessions', (req: Request, res: Response) => {
+      const access = this.authorizeSessions(req, res);
+      if (!access) {
+        return;
+      }
+
+      const sessions = this.sessionManager
+        .list(access.owner)
+        .sort((a, b) => b.lastActivity - a.lastActivity)
+        .map((session) => this.serializeSession(session));
+
+      res.json({ sessions });
+    });
+
+    this.app.get('/sessions/:id', (req: Request, res: Response) => {
+      const session = this.findSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      res.json(this.serializeSession(session));
+    });
+
+    // Files Claude has written to the session's workspace
+    this.app.get('/sessions/:id/files', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        const files = await this.workspaceManager.listFiles(session.workspacePath);
+        res.json({ files });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Multipart upload into the workspace; creates the session if needed so
+    // files can be added before the first prompt
+    this.app.post('/sessions/:id/files', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const auth = this.authenticate(req, res);
+        if (!auth) {
+          return;
+        }
+
+        const session = await this.sessionManager.getOrCreate(
+          req.params.id,
+          undefined,
+          auth.apiKey,
+          auth.callerId
+        );
+
+        const files = await this.fileUploadService.receive(req, session.workspacePath);
+        res.status(201).json({ files });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // ?download=1 sends the file as an attachment instead of inline
+    this.app.get('/sessions/:id/files/*', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        const filePath = await this.workspaceManager.resolveFile(session.workspacePath, req.params[0]);
+
+        // Workspace content is untrusted, never let it run as a page on this origin
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.setHeader('Content-Security-Policy', 'sandbox');
+        res.setHeader('Cache-Control', 'private, no-cache');
+
+        const onSent = (err?: Error) => {
+          if (err && !res.headersSent) {
+            next(err);
+          }
+        };
+
+        // ETag/Last-Modified revalidation and Range requests are handled by send
+        const options = { cacheControl: false, acceptRanges: true, lastModified: true };
+        if (req.query.download) {
+          res.download(filePath, path.basename(filePath), options, onSent);
+        } else {
+          res.sendFile(filePath, options, onSent);
+        }
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    this.app.delete('/sessions/:id/files/*', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        await this.workspaceManager.deletePath(session.workspacePath, req.params[0]);
+        res.json({ success: true, message: 'File deleted' });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // The whole workspace as one download: ?format=zip|tar.gz&include=<glob>
+    this.app.get('/sessions/:id/archive', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        const { format = 'zip', include, includePluginFiles } = req.query;
+        if (!ARCHIVE_FORMATS.includes(format as ArchiveFormat)) {
+          throw new Error(`format must be one of: ${ARCHIVE_FORMATS.join(', ')}`);
+        }
+        if (include !== undefined && typeof include !== 'string') {
+          throw new Error('include must be a glob pattern');
+        }
+
+        const archive = await this.workspaceManager.createArchive(session.workspacePath, {
+          format: format as ArchiveFormat,
+          include,
+          // The plugin's own files stay private to admins
+          includePluginFiles: includePluginFiles === 'true' && this.authManager.isAdmin(req),
+        });
+
+        const filename = `session-${session.id.replace(/[^\w-]/g, '_')}.${format}`;
+        res.setHeader('Content-Type', format === 'zip' ? 'application/zip' : 'application/gzip');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+        archive.on('error', (error) => {
+          console.error('Archive failed:', error.message);
+          res.destroy(error);
+        });
+        res.on('close', () => archive.abort());
+        archive.pipe(res);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Every prompt and stream event recorded for the session
+    this.app.get('/sessions/:id/transcript', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        const { format = 'json' } = req.query;
+        if (!TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+          throw new Error(`format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`);
+        }
+
+        const entries = await this.transcriptStore.read(session.id);
+        const meta = { sessionId: session.id, title: session.title };
+
+        if (format === 'json') {
+          res.json({ ...meta, entries });
+          return;
+        }
+
+        const filename = `transcript-${session.id.replace(/[^\w-]/g, '_')}.${format}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+        if (format === 'md') {
+          res.type('text/markdown').send(this.transcriptRenderer.toMarkdown(meta, entries));
+        } else {
+          res.type('html').send(this.transcriptRenderer.toHtml(meta, entries));
+        }
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Workspace snapshots taken before each turn, oldest first
+    this.app.get('/sessions/:id/checkpoints', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        res.json({ checkpoints: await this.sessionManager.listCheckpoints(session.id) });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Roll files and conversation back to before the checkpoint's turn
+    this.app.post(
+      '/sessions/:id/checkpoints/:checkpointId/restore',
+      async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const session = this.findSession(req, res);
+          if (!session) {
+            return;
+          }
+
+          const checkpointId = Number(req.params.checkpointId);
+          if (!Number.isInteger(checkpointId) || checkpointId < 1) {
+            throw new Error('checkpointId must be a positive integer');
+          }
+
+          if (executionRegistry.getBySession(session.id).length > 0) {
+            throw new RuntimeError('Session has a running execution', 'SESSION_BUSY', 409);
+          }
+
+          // The session may have expired or been deleted in the meantime
+          const restored = await this.sessionManager.restoreCheckpoint(session.id, checkpointId);
+          if (!restored) {
+            return res.status(404).json({ success: false, error: 'Session not found' });
+          }
+
+          res.json({ success: true, session: this.serializeSession(restored) });
+        } catch (error) {
+          next(error);
+        }
+      }
+    );
+
+    this.app.patch('/sessions/:id', (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        const { title } = (req.body ?? {}) as Record<string, unknown>;
+        if (title !== null && (typeof title !== 'string' || title.length > 200)) {
+          throw new Error('title must be a string of at most 200 characters, or null');
+        }
+
+        const updated = this.sessionManager.update(session.id, {
+          title: title?.trim() || undefined,
+        });
+        if (!updated) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+
+        res.json(this.serializeSession(updated));
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    this.app.delete('/sessions/:id', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const session = this.findSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        // Stop anything still running before its workspace goes away
+        for (const executionId of executionRegistry.getBySession(session.id)) {
+          executionRegistry.cancel(executionId);
+        }
+
+        await this.sessionManager.delete(session.id);
+        res.json({ success: true, message: 'Session deleted' });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Remaining budget for the calling token or key
+    this.app.get('/quota', (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const auth = this.authenticate(req, res);
+        if (!auth) {
+          return;
+        }
+
+        res.json(this.executionService.getQuotaStatus(auth.callerId));
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Usage ledger. Admins see every caller, everyone else only their own runs.
+    // ?from=&to= (ISO dates, `to` exclusive), ?groupBy=caller|session|command|day, ?format=csv
+    this.app.get('/usage', (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const query = this.validateUsageQuery(req.query);
+        const filter: UsageFilter = { from: query.from, to: query.to };
+
+        if (this.authManager.isAdmin(req)) {
+          filter.callerId = query.callerId;
+        } else {
+          const auth = this.authenticate(req, res);
+          if (!auth) {
+            return;
+          }
+          filter.callerId = auth.callerId;
+        }
+
+        const records = this.usageLedger.query(filter);
+        const totals = this.usageLedger.total(records);
+
+        if (query.format === 'csv') {
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.setHeader('Content-Disposition', 'attachment; filename="usage.csv"');
+
+          if (query.groupBy) {
+            return res.send(toCsv(this.usageLedger.summarize(records, query.groupBy), USAGE_SUMMARY_COLUMNS));
+          }
+          return res.send(toCsv(records, USAGE_RECORD_COLUMNS));
+        }
+
+        if (query.groupBy) {
+          return res.json({
+            groupBy: query.groupBy,
+            groups: this.usageLedger.summarize(records, query.groupBy),
+            totals,
+          });
+        }
+
+        res.json({ records, totals });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Access token administration
+    this.app.get('/admin/tokens', (req: Request, res: Response) => {
+      if (!this.authorizeAdmin(req, res)) {
+        return;
+      }
+
+      res.json({ tokens: this.tokenStore.list() });
+    });
+
+    this.app.post('/admin/tokens', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!this.authorizeAdmin(req, res)) {
+          return;
+        }
+
+        const { token, info } = await this.tokenStore.create(this.validateTokenRequest(req.body));
+        res.status(201).json({ token, ...info });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    this.app.delete('/admin/tokens/:id', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!this.authorizeAdmin(req, res)) {
+          return;
+        }
+
+        if (!(await this.tokenStore.revoke(req.params.id))) {
+          return res.status(404).json({ success: false, error: 'Token not found' });
+        }
+
+        res.json({ success: true, message: 'Token revoked' });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Serve static files via /filesystem?f=path/to/file (&sessionId= for per-user folders)
+    this.app.get('/filesystem', async (req: Request, res: Response, next: NextFunction) => {
+      const requestedPath = req.query.f;
       const staticFiles = this.config.pluginConfig?.staticFiles;
 
-      if (!requestedPath) {
+      if (!requestedPath || typeof requestedPath !== 'string') {
         return res.status(400).json({ error: 'Missing file path parameter (f)' });
       }
 
@@ -211,31 +824,71 @@ export class Server {
         return res.status(404).json({ error: 'No static files configured' });
       }
 
-      // Find matching static file config
-      for (const staticFile of staticFiles) {
-        const urlPathWithoutSlash = staticFile.urlPath.replace(/^\//, '');
-        if (requestedPath.startsWith(urlPathWithoutSlash)) {
-          const relativePath = requestedPath.slice(urlPathWithoutSlash.length).replace(/^\//, '');
-          const filePath = path.resolve(
-            this.config.pluginDir,
-            staticFile.folder.replace(/^\.\//, ''),
-            relativePath
-          );
-
-          return res.sendFile(filePath, (err) => {
-            if (err) {
-              res.status(404).json({ error: 'File not found' });
-            }
-          });
+      try {
+        const config = this.staticFilesService.findConfig(staticFiles, requestedPath);
+        if (!config) {
+          return res.status(404).json({ error: 'File not found' });
         }
-      }
 
-      res.status(404).json({ error: 'File not found' });
+        // A valid signature stands in for credentials, including session ownership
+        const sessionId =
+          config.access === 'per-user' && typeof req.query.sessionId === 'string'
+            ? req.query.sessionId
+            : undefined;
+        const signed = this.urlSigner.verify(requestedPath, sessionId, req.query.exp, req.query.sig);
+
+        if (!signed && !this.canReadStaticFolder(req, config)) {
+          this.sendAuthRequired(res, config.access !== 'per-user');
+          return;
+        }
+
+        const workspacePath =
+          signed && sessionId
+            ? this.sessionManager.find(sessionId)?.workspacePath
+            : this.callerWorkspace(req);
+
+        const filePath = await this.staticFilesService.resolveFile(
+          staticFiles,
+          requestedPath,
+          workspacePath
+        );
+        if (!filePath) {
+          return res.status(404).json({ error: 'File not found' });
+        }
+
+        // Anyone may keep a copy of public files; the rest stay out of shared caches.
+        // Either way clients revalidate, and get a 304 while the file is unchanged.
+        const isPublic = config.access !== 'per-user' && (config.auth ?? 'token') === 'none';
+        res.setHeader('Cache-Control', isPublic ? 'public, no-cache' : 'private, no-cache');
+
+        const options = { cacheControl: false, acceptRanges: true, lastModified: true };
+        res.sendFile(filePath, options, (err) => {
+          if (err && !res.headersSent) {
+            res.status(404).json({ error: 'File not found' });
+          }
+        });
+      } catch (error) {
+        next(error);
+      }
     });
   }
 
   private setupErrorHandler(): void {
     this.app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+      if (error instanceof RuntimeError) {
+        if (error.retryAfterSeconds !== undefined) {
+          res.setHeader('Retry-After', String(error.retryAfterSeconds));
+        }
+        res.status(error.statusCode).json({
+          success: false,
+          output: '',
+          error: error.message,
+          code: error.code,
+          ...error.details,
+        });
+        return;
+      }
+
       console.error('Request error:', error.message);
       console.error('Stack:', error.stack);
       res.status(400).json({
@@ -246,6 +899,341 @@ export class Server {
     });
   }
 
+  private authenticate(req: Request, res: Response): AuthConfig | null {
+    const auth = this.authManager.resolveAuth(req);
+
+    if (!auth) {
+      this.sendAuthRequired(res, Boolean(process.env.ANTHROPIC_API_KEY));
+      return null;
+    }
+
+    return auth;
+  }
+
+  private sendAuthRequired(res: Response, tokenRequired: boolean): void {
+    const errorResponse: AuthErrorResponse = {
+      success: false,
+      error: 'Authentication required',
+      code: 'AUTH_REQUIRED',
+      hint: tokenRequired
+        ? 'Access token required. Go to <a href="/settings">settings</a> to add the token you were given.'
+        : 'API key required. Go to <a href="/settings">settings</a> to add your API key.',
+    };
+    res.status(401).json(errorResponse);
+  }
+
+  // Shared folders with auth 'token' need a bazaar token, since without a
+  // server key any string passes as an API key. Per-user folders only ever
+  // show the caller's own sessions, so the caller's key is enough there.
+  private canReadStaticFolder(req: Request, config: StaticFileConfig): boolean {
+    if ((config.auth ?? 'token') === 'none') {
+      return true;
+    }
+
+    if (config.access === 'per-user') {
+      return this.authManager.isAdmin(req) || this.authManager.resolveAuth(req) !== null;
+    }
+
+    return this.authManager.hasAccessToken(req);
+  }
+
+  private authorizeAdmin(req: Request, res: Response): boolean {
+    if (!this.authManager.isAdminEnabled()) {
+      res.status(403).json({
+        success: false,
+        error: 'Token administration is disabled. Set BAZAAR_ADMIN_SECRET to enable it.',
+      });
+      return false;
+    }
+
+    if (!this.authManager.isAdmin(req)) {
+      res.status(401).json({ success: false, error: 'Admin credentials required' });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Admins get unscoped access; everyone else is limited to sessions they own.
+   */
+  private authorizeSessions(req: Request, res: Response): { owner?: string } | null {
+    if (this.authManager.isAdmin(req)) {
+      return {};
+    }
+
+    const auth = this.authenticate(req, res);
+    return auth ? { owner: auth.callerId } : null;
+  }
+
+  private findSession(req: Request, res: Response): SessionRecord | null {
+    const access = this.authorizeSessions(req, res);
+    if (!access) {
+      return null;
+    }
+
+    const session = this.sessionManager.find(req.params.id);
+
+    // Other callers' sessions look the same as missing ones
+    if (!session || (access.owner !== undefined && session.owner !== access.owner)) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return null;
+    }
+
+    return session;
+  }
+
+  private findJob(req: Request, res: Response): Job | null {
+    const auth = this.authenticate(req, res);
+    if (!auth) {
+      return null;
+    }
+
+    const job = executionRegistry.getJob(req.params.id);
+
+    // Other callers' jobs look the same as missing ones
+    if (!job || job.callerId !== auth.callerId) {
+      res.status(404).json({ success: false, error: 'Job not found' });
+      return null;
+    }
+
+    return job;
+  }
+
+  // Download link for a static file; signed unless anyone may fetch it
+  private staticFileUrl(config: StaticFileConfig, filePath: string, sessionId?: string): string {
+    const params = new URLSearchParams({ f: filePath });
+
+    if ((config.auth ?? 'token') === 'token' || config.access === 'per-user') {
+      const scopedSessionId = config.access === 'per-user' ? sessionId : undefined;
+      if (scopedSessionId) {
+        params.set('sessionId', scopedSessionId);
+      }
+      const { exp, sig } = this.urlSigner.sign(filePath, scopedSessionId);
+      params.set('exp', String(exp));
+      params.set('sig', sig);
+    }
+
+    return `/filesystem?${params}`;
+  }
+
+  /**
+   * Workspace of the session named by ?sessionId, if the caller owns it.
+   * Unlike findSession this never responds, so shared content stays public.
+   */
+  private callerWorkspace(req: Request): string | undefined {
+    const { sessionId } = req.query;
+    if (typeof sessionId !== 'string') {
+      return undefined;
+    }
+
+    const session = this.sessionManager.find(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    if (this.authManager.isAdmin(req)) {
+      return session.workspacePath;
+    }
+
+    const auth = this.authManager.resolveAuth(req);
+    return auth && session.owner === auth.callerId ? session.workspacePath : undefined;
+  }
+
+  private serializeSession(session: SessionRecord): Record<string, unknown> {
+    const { workspacePath: _workspacePath, ...rest } = session;
+    return {
+      ...rest,
+      running: executionRegistry.getBySession(session.id).length > 0,
+    };
+  }
+
+  private setEventStreamHeaders(res: Response): void {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+  }
+
+  private writeEvent(res: Response, event: BufferedEvent): void {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
+
+  private parseLastEventId(req: Request): number {
+    const raw = req.header('Last-Event-ID') ?? req.query.after;
+    const parsed = typeof raw === 'string' ? parseInt(raw, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+  }
+
+  /**
+   * Replay buffered events after afterId, then follow the buffer live.
+   * When the last client goes away the execution is cancelled after the
+   * reconnect grace period rather than immediately.
+   */
+  private pipeReplayBuffer(
+    res: Response,
+    executionId: string,
+    buffer: ReplayBuffer,
+    afterId: number
+  ): void {
+    this.setEventStreamHeaders(res);
+    executionRegistry.clearScheduledCancel(executionId);
+
+    const { events, truncated } = buffer.since(afterId);
+    if (truncated) {
+      res.write(`data: ${JSON.stringify({ type: 'replay_truncated', executionId })}\n\n`);
+    }
+    for (const event of events) {
+      this.writeEvent(res, event);
+    }
+
+    if (buffer.isClosed()) {
+      res.end();
+      return;
+    }
+
+    const onEvent = (event: BufferedEvent) => this.writeEvent(res, event);
+    const onClose = () => res.end();
+
+    buffer.on('event', onEvent);
+    buffer.once('close', onClose);
+
+    // res 'close' marks the client going away; req 'close' already fires once the body is read
+    res.on('close', () => {
+      buffer.off('event', onEvent);
+      buffer.off('close', onClose);
+
+      if (!buffer.isClosed() && buffer.subscriberCount() === 0) {
+        executionRegistry.scheduleCancel(executionId, this.config.reconnectGraceMs);
+      }
+    });
+  }
+
+  private serializeJob(job: Job): Job & { eventCount: number } {
+    return { ...job, eventCount: executionRegistry.getJobEventCount(job.id) };
+  }
+
+  private jobEndEvent(job: Job): { type: 'stream_end' | 'error' | 'cancelled'; error?: string } {
+    switch (job.status) {
+      case 'failed':
+        return { type: 'error', error: job.error || 'Job failed' };
+      case 'cancelled':
+        return { type: 'cancelled' };
+      default:
+        return { type: 'stream_end' };
+    }
+  }
+
+  private validateListingQuery(query: Request['query']): ListingOptions {
+    const parseCount = (name: string, min: number, max: number): number | undefined => {
+      const value = query[name];
+      if (value === undefined) {
+        return undefined;
+      }
+
+      const count = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+      if (!(count >= min && count <= max)) {
+        throw new Error(`${name} must be an integer from ${min} to ${max}`);
+      }
+      return count;
+    };
+
+    const { urlPath, path: subPath } = query;
+
+    if (urlPath !== undefined && typeof urlPath !== 'string') {
+      throw new Error('urlPath must be a string');
+    }
+
+    if (subPath !== undefined) {
+      if (typeof subPath !== 'string') {
+        throw new Error('path must be a string');
+      }
+      if (urlPath === undefined) {
+        throw new Error('path requires urlPath');
+      }
+    }
+
+    return {
+      urlPath,
+      path: subPath,
+      depth: parseCount('depth', 0, 100),
+      offset: parseCount('offset', 0, Number.MAX_SAFE_INTEGER),
+      limit: parseCount('limit', 1, 10000),
+    };
+  }
+
+  private validateUsageQuery(query: Request['query']): {
+    from?: number;
+    to?: number;
+    callerId?: string;
+    groupBy?: UsageGroupBy;
+    format: 'json' | 'csv';
+  } {
+    const parseDate = (name: string): number | undefined => {
+      const value = query[name];
+      if (value === undefined) {
+        return undefined;
+      }
+
+      const timestamp = typeof value === 'string' ? Date.parse(value) : NaN;
+      if (Number.isNaN(timestamp)) {
+        throw new Error(`${name} must be an ISO date`);
+      }
+      return timestamp;
+    };
+
+    const { groupBy, format = 'json', callerId } = query;
+
+    if (groupBy !== undefined && !USAGE_GROUP_BY.includes(groupBy as UsageGroupBy)) {
+      throw new Error(`groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}`);
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      throw new Error('format must be json or csv');
+    }
+
+    if (callerId !== undefined && typeof callerId !== 'string') {
+      throw new Error('callerId must be a string');
+    }
+
+    return {
+      from: parseDate('from'),
+      to: parseDate('to'),
+      callerId,
+      groupBy: groupBy as UsageGroupBy | undefined,
+      format,
+    };
+  }
+
+  private validateTokenRequest(body: unknown): CreateTokenOptions {
+    if (!body || typeof body !== 'object') {
+      throw new Error('Request body must be an object');
+    }
+
+    const { label, scopes = ['execute'], expiresIn } = body as Record<string, unknown>;
+
+    if (typeof label !== 'string' || !label.trim()) {
+      throw new Error('label is required and must be a non-empty string');
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => TOKEN_SCOPES.includes(scope))
+    ) {
+      throw new Error(`scopes must be a non-empty array of: ${TOKEN_SCOPES.join(', ')}`);
+    }
+
+    if (expiresIn !== undefined && (typeof expiresIn !== 'number' || expiresIn <= 0)) {
+      throw new Error('expiresIn must be a positive number of seconds');
+    }
+
+    return {
+      label: label.trim(),
+      scopes: Array.from(new Set(scopes as TokenScope[])),
+      expiresAt: expiresIn ? Date.now() + (expiresIn as number) * 1000 : undefined,
+    };
+  }
+
   private validateRequest(body: unknown): ExecuteRequest {
     if (!body || typeof body !== 'object') {
       throw new Error('Request body must be an object');
@@ -269,6 +1257,9 @@ export class Server {
         if (typeof file.path !== 'string' || typeof file.content !== 'string') {
           throw new Error('Each file must have path and content strings');
         }
+        if (file.encoding !== undefined && file.encoding !== 'utf-8' && file.encoding !== 'base64') {
+          throw new Error('File encoding must be utf-8 or base64');
+        }
       }
     }
 
@@ -285,12 +1276,74 @@ export class Server {
       files: files as ExecuteRequest['files'],
       timeout: timeout as number | undefined,
       sessionId: sessionId as string | undefined,
+      ...this.validateRunOptions(body as Record<string, unknown>),
+    };
+  }
+
+  // Model and turn choices, limited to what the plugin's requestOptions allow, and the output schema
+  private validateRunOptions(body: Record<string, unknown>): Omit<RunOptions, 'timeout'> {
+    const { model, fallbackModel, maxTurns, appendSystemPrompt, outputSchema } = body;
+    const allowed = this.config.pluginConfig?.requestOptions ?? {};
+    const maxTurnsPerRun = this.config.pluginConfig?.quotas?.maxTurnsPerRun;
+
+    for (const [field, value] of Object.entries({ model, fallbackModel })) {
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        throw new Error(`${field} must be a string`);
+      }
+      if (!allowed.models?.includes(value)) {
+        throw new Error(
+          allowed.models?.length
+            ? `${field} must be one of: ${allowed.models.join(', ')}`
+            : 'This app does not allow choosing a model'
+        );
+      }
+    }
+
+    const effectiveModel = (model as string | undefined) ?? allowed.defaultModel;
+    if (fallbackModel !== undefined && fallbackModel === effectiveModel) {
+      throw new Error('fallbackModel must differ from model');
+    }
+
+    if (maxTurns !== undefined && (typeof maxTurns !== 'number' || !Number.isInteger(maxTurns) || maxTurns < 1)) {
+      throw new Error('maxTurns must be a positive integer');
+    }
+    if (maxTurns !== undefined && maxTurnsPerRun !== undefined && (maxTurns as number) > maxTurnsPerRun) {
+      throw new Error(`maxTurns must be at most ${maxTurnsPerRun}`);
+    }
+
+    if (appendSystemPrompt !== undefined) {
+      if (typeof appendSystemPrompt !== 'string') {
+        throw new Error('appendSystemPrompt must be a string');
+      }
+      if (!allowed.appendSystemPrompt) {
+        throw new Error('This app does not allow appending to the system prompt');
+      }
+    }
+
+    if (outputSchema !== undefined) {
+      if (!outputSchema || typeof outputSchema !== 'object' || Array.isArray(outputSchema)) {
+        throw new Error('outputSchema must be a JSON Schema object');
+      }
+      this.structuredOutput.compile(outputSchema as JsonSchema);
+    }
+
+    return {
+      model: effectiveModel,
+      fallbackModel: fallbackModel as string | undefined,
+      maxTurns: maxTurns as number | undefined,
+      appendSystemPrompt: (appendSystemPrompt as string | undefined) || undefined,
+      outputSchema: outputSchema as JsonSchema | undefined,
     };
   }
 
-  start(): void {
-    this.app.listen(this.config.port, () => {
+  start(): HttpServer {
+    const server = this.app.listen(this.config.port, () => {
       console.log(`Bazaar runtime listening on port ${this.config.port}`);
     });
+    this.webSocketGateway.attach(server);
+    return server;
   }
 }
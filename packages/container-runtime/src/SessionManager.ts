@@ -1,7 +1,11 @@
-import { spawn } from 'child_process';
-import { createInterface } from 'readline';
 import { WorkspaceManager } from './WorkspaceManager.js';
-import { FileInput, StreamEvent } from './types.js';
+import { ClaudeExecutor, ExecuteOptions, ExecutionResult, StreamingExecutionHandle } from './ClaudeExecutor.js';
+import { Checkpoint, CheckpointStore } from './CheckpointStore.js';
+import { PermissionBroker } from './PermissionBroker.js';
+import { TranscriptStore } from './TranscriptStore.js';
+import { SessionRecord, SessionStore } from './sessions/index.js';
+import { RuntimeError } from './errors.js';
+import { FileInput, ResultEvent, RunOptions, StreamEvent } from './types.js';
 
 const DEBUG = process.env.DEBUG === '1' || process.env.DEBUG === 'true';
 
@@ -11,11 +15,7 @@ function debug(...args: unknown[]): void {
   }
 }
 
-interface Session {
-  id: string;
-  workspacePath: string;
-  conversationId?: string;
-  lastActivity: number;
+interface Session extends SessionRecord {
   apiKey?: string;
 }
 
@@ -32,22 +32,72 @@ const DEFAULT_CONFIG: SessionManagerConfig = {
 export class SessionManager {
   private readonly sessions: Map<string, Session> = new Map();
   private readonly workspaceManager: WorkspaceManager;
+  private readonly executor: ClaudeExecutor;
+  private readonly store: SessionStore;
+  private readonly checkpointStore: CheckpointStore;
+  private readonly transcriptStore: TranscriptStore;
+  private readonly permissionBroker: PermissionBroker;
   private readonly config: SessionManagerConfig;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(workspaceManager: WorkspaceManager, config: Partial<SessionManagerConfig> = {}) {
+  constructor(
+    workspaceManager: WorkspaceManager,
+    executor: ClaudeExecutor,
+    store: SessionStore,
+    checkpointStore: CheckpointStore,
+    transcriptStore: TranscriptStore,
+    permissionBroker: PermissionBroker,
+    config: Partial<SessionManagerConfig> = {}
+  ) {
     this.workspaceManager = workspaceManager;
+    this.executor = executor;
+    this.store = store;
+    this.checkpointStore = checkpointStore;
+    this.transcriptStore = transcriptStore;
+    this.permissionBroker = permissionBroker;
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.startCleanupTimer();
   }
 
+  /**
+   * Rehydrate persisted sessions whose workspace still exists, so --resume
+   * keeps working after a restart.
+   */
+  async restore(): Promise<number> {
+    const records = await this.store.load();
+    let restored = 0;
+
+    for (const record of records) {
+      if (await this.workspaceManager.exists(record.workspacePath)) {
+        // Records from older versions lack the counters. The idle clock
+        // restarts, so sessions are not expired for the time we were down.
+        this.sessions.set(record.id, {
+          ...record,
+          messageCount: record.messageCount ?? 0,
+          costUsd: record.costUsd ?? 0,
+          lastActivity: Date.now(),
+        });
+        restored++;
+      } else {
+        debug('Dropping session with missing workspace', record.id);
+        await this.store.delete(record.id);
+        await this.checkpointStore.delete(record.id);
+        await this.transcriptStore.delete(record.id);
+      }
+    }
+
+    return restored;
+  }
+
   async getOrCreate(
     sessionId: string,
     files?: FileInput[],
-    apiKey?: string
+    apiKey?: string,
+    owner?: string
   ): Promise<Session> {
     debug('getOrCreate called', { sessionId, hasFiles: !!files?.length, hasApiKey: !!apiKey });
 
+    this.assertAccess(sessionId, owner);
     let session = this.sessions.get(sessionId);
 
     if (!session) {
@@ -59,13 +109,19 @@ export class SessionManager {
       session = {
         id: sessionId,
         workspacePath,
+        createdAt: Date.now(),
         lastActivity: Date.now(),
+        owner,
+        messageCount: 0,
+        costUsd: 0,
         apiKey,
       };
 
       this.sessions.set(sessionId, session);
     } else {
       debug('Reusing existing session', sessionId);
+      // Sessions from before owners were recorded go to the first caller to use them
+      session.owner ??= owner;
     }
 
     // Update API key if provided
@@ -80,149 +136,183 @@ export class SessionManager {
 
     // Update activity timestamp
     session.lastActivity = Date.now();
+    this.persist(session);
 
     return session;
   }
 
+  /**
+   * Run a prompt in the session's conversation. Events go to onEvent, the
+   * returned handle reports how the run ends and can cancel it.
+   */
   async executeStreaming(
     session: Session,
     prompt: string,
     onEvent: (event: StreamEvent) => void,
-    _executionId: string
-  ): Promise<{ output: string; process: import('child_process').ChildProcess | null }> {
-    return this.executeInternal(session, prompt, onEvent);
+    executionId: string,
+    options: RunOptions = {}
+  ): Promise<StreamingExecutionHandle> {
+    await this.beginTurn(session, prompt, executionId, onEvent);
+
+    const handle = this.executor.executeStreaming(this.executeOptions(session, prompt, options), executionId);
+
+    handle.emitter.on('event', (event) => {
+      onEvent(event);
+      if (event.type === 'result') {
+        this.recordResult(session, event);
+      }
+    });
+
+    return handle;
   }
 
   async execute(
     session: Session,
     prompt: string,
-    onEvent?: (event: StreamEvent) => void
-  ): Promise<string> {
-    const result = await this.executeInternal(session, prompt, onEvent);
-    return result.output;
+    executionId: string,
+    options: RunOptions = {}
+  ): Promise<ExecutionResult> {
+    await this.beginTurn(session, prompt, executionId);
+
+    const result = await this.executor.execute(this.executeOptions(session, prompt, options));
+
+    try {
+      this.recordResult(session, JSON.parse(result.output) as ResultEvent);
+    } catch {
+      debug('Could not parse output as JSON');
+    }
+
+    return result;
   }
 
-  private async executeInternal(
+  private async beginTurn(
     session: Session,
     prompt: string,
+    executionId: string,
     onEvent?: (event: StreamEvent) => void
-  ): Promise<{ output: string; process: import('child_process').ChildProcess | null }> {
-    return new Promise((resolve, reject) => {
-      const args = ['-p', prompt];
+  ): Promise<void> {
+    await this.checkpoint(session, prompt, executionId, onEvent);
+    session.messageCount++;
 
-      // Use stream-json format when streaming, otherwise json
-      if (onEvent) {
-        args.push('--output-format', 'stream-json', '--verbose');
-      } else {
-        args.push('--output-format', 'json');
-      }
+    debug('Executing prompt', {
+      cwd: session.workspacePath,
+      hasConversationId: !!session.conversationId,
+    });
+  }
 
+  private executeOptions(session: Session, prompt: string, options: RunOptions): ExecuteOptions {
+    return {
+      ...options,
+      workspacePath: session.workspacePath,
+      prompt,
+      apiKey: session.apiKey,
       // Resume conversation if we have one
-      if (session.conversationId) {
-        args.push('--resume', session.conversationId);
-      }
+      resumeSessionId: session.conversationId,
+    };
+  }
 
-      debug('Executing claude', {
-        args,
-        cwd: session.workspacePath,
-        hasConversationId: !!session.conversationId,
-      });
+  // The result carries the conversation to resume next time and the run's cost
+  private recordResult(session: Session, result: ResultEvent): void {
+    session.costUsd += result.total_cost_usd ?? 0;
+    if (result.session_id) {
+      session.conversationId = result.session_id;
+      debug('Captured conversation ID from result', session.conversationId);
+    }
+    session.lastActivity = Date.now();
+    this.persist(session);
+  }
 
-      // Build environment
-      const env = { ...process.env };
-      if (session.apiKey) {
-        env.ANTHROPIC_API_KEY = session.apiKey;
-      }
+  // Snapshot the workspace before a turn; a failed snapshot does not stop the run
+  private async checkpoint(
+    session: Session,
+    prompt: string,
+    executionId: string,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<void> {
+    if (!this.checkpointStore.enabled) {
+      return;
+    }
 
-      const claude = spawn('claude', args, {
-        cwd: session.workspacePath,
-        env,
-        stdio: ['ignore', 'pipe', 'pipe'],
+    try {
+      const checkpoint = await this.checkpointStore.create(session.id, session.workspacePath, {
+        prompt,
+        conversationId: session.conversationId,
+        messageCount: session.messageCount,
+        executionId,
       });
+      onEvent?.({ type: 'checkpoint', checkpointId: checkpoint.id });
+    } catch (error) {
+      console.error(`Failed to checkpoint session ${session.id}:`, (error as Error).message);
+    }
+  }
 
-      let stdout = '';
-      let stderr = '';
+  get(sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  }
 
-      if (onEvent) {
-        // Parse stream-json events line by line
-        const rl = createInterface({
-          input: claude.stdout!,
-          crlfDelay: Infinity,
-        });
+  /**
+   * Sessions as stored, without secrets. Pass an owner to only list theirs.
+   */
+  list(owner?: string): SessionRecord[] {
+    return Array.from(this.sessions.values())
+      .filter((session) => owner === undefined || session.owner === owner)
+      .map((session) => this.toRecord(session));
+  }
 
-        rl.on('line', (line) => {
-          if (!line.trim()) return;
-          stdout += line + '\n';
-
-          try {
-            const event = JSON.parse(line) as StreamEvent;
-            onEvent(event);
-
-            // Capture session_id from result event
-            if (event.type === 'result') {
-              session.conversationId = event.session_id;
-              debug('Captured conversation ID from result', session.conversationId);
-            }
-          } catch {
-            // Non-JSON line, skip
-          }
-        });
-      } else {
-        claude.stdout?.on('data', (data: Buffer) => {
-          stdout += data.toString();
-        });
-      }
+  /**
+   * Look up a session without counting it as activity.
+   */
+  // Throws unless the session is missing, unowned or owned by this caller
+  assertAccess(sessionId: string, owner?: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session?.owner && owner && session.owner !== owner) {
+      throw new RuntimeError('Session belongs to another caller', 'SESSION_FORBIDDEN', 403);
+    }
+  }
 
-      claude.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+  find(sessionId: string): SessionRecord | undefined {
+    const session = this.sessions.get(sessionId);
+    return session ? this.toRecord(session) : undefined;
+  }
 
-      claude.on('close', (code) => {
-        debug('Claude process closed', { code, stdoutLength: stdout.length, stderrLength: stderr.length });
-
-        if (code === 0) {
-          // For non-streaming, try to extract conversation ID
-          if (!onEvent) {
-            try {
-              const parsed = JSON.parse(stdout);
-              if (parsed.conversation_id || parsed.session_id) {
-                session.conversationId = parsed.conversation_id || parsed.session_id;
-                debug('Captured conversation ID', session.conversationId);
-              }
-            } catch {
-              debug('Could not parse stdout as JSON');
-            }
-          }
-
-          session.lastActivity = Date.now();
-          // Only resolve on close for non-streaming
-          if (!onEvent) {
-            resolve({ output: stdout, process: claude });
-          }
-        } else {
-          debug('Claude process failed', { code, stderr });
-          reject(new Error(stderr || `Claude Code exited with code ${code}`));
-        }
-      });
+  update(sessionId: string, changes: Pick<SessionRecord, 'title'>): SessionRecord | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
 
-      claude.on('error', (error) => {
-        debug('Claude spawn error', error);
-        reject(error);
-      });
+    session.title = changes.title;
+    this.persist(session);
+    return this.toRecord(session);
+  }
 
-      // For streaming, resolve immediately with process reference so it can be registered
-      if (onEvent) {
-        resolve({ output: '', process: claude });
-      }
-    });
+  listCheckpoints(sessionId: string): Promise<Checkpoint[]> {
+    return this.checkpointStore.list(sessionId);
   }
 
-  get(sessionId: string): Session | undefined {
+  /**
+   * Roll the workspace, the conversation and the transcript back to a
+   * checkpoint. The next prompt resumes the Claude session as it was before
+   * that turn.
+   */
+  async restoreCheckpoint(sessionId: string, checkpointId: number): Promise<SessionRecord | undefined> {
     const session = this.sessions.get(sessionId);
-    if (session) {
-      session.lastActivity = Date.now();
+    if (!session) {
+      return undefined;
     }
-    return session;
+
+    const checkpoint = await this.checkpointStore.restore(sessionId, checkpointId, session.workspacePath);
+    session.conversationId = checkpoint.conversationId;
+    session.messageCount = checkpoint.messageCount;
+    session.lastActivity = Date.now();
+    this.persist(session);
+    await this.transcriptStore.truncate(sessionId, checkpoint.executionId, checkpoint.createdAt);
+
+    return this.toRecord(session);
   }
 
   async delete(sessionId: string): Promise<void> {
@@ -230,9 +320,23 @@ export class SessionManager {
     if (session) {
       await this.workspaceManager.cleanup(session.workspacePath);
       this.sessions.delete(sessionId);
+      await this.store.delete(sessionId);
+      await this.checkpointStore.delete(sessionId);
+      await this.transcriptStore.delete(sessionId);
+      this.permissionBroker.forgetSession(sessionId);
     }
   }
 
+  private persist(session: Session): void {
+    this.store.save(this.toRecord(session));
+  }
+
+  // The API key stays in memory only
+  private toRecord(session: Session): SessionRecord {
+    const { apiKey: _apiKey, ...record } = session;
+    return record;
+  }
+
   private startCleanupTimer(): void {
     this.cleanupInterval = setInterval(
       () => this.cleanupIdleSessions(),
@@ -261,6 +365,11 @@ export class SessionManager {
       clearInterval(this.cleanupInterval);
     }
 
+    // Persistent sessions keep their workspaces for the next start
+    if (this.store.persistent) {
+      return;
+    }
+
     // Cleanup all sessions
     for (const id of this.sessions.keys()) {
       await this.delete(id);
@@ -1,39 +1,99 @@
-import { promises as fs } from 'fs';
 import path from 'path';
 import { FileTreeNode, StaticFileConfig } from './types.js';
+import { FileTreeBuilder } from './FileTreeBuilder.js';
+import { FileTreeCache } from './FileTreeCache.js';
+import { PathGuard } from './PathGuard.js';
+import { RuntimeError } from './errors.js';
 
 export interface StaticFilesResult {
   folder: string;
   urlPath: string;
+  access: 'shared' | 'per-user';
+  auth: 'none' | 'token';
   files: FileTreeNode;
 }
 
+/**
+ * Limits for listing large folders. Directories cut short by depth or limit
+ * carry childCount, and can be fetched on their own by passing their path.
+ */
+export interface ListingOptions {
+  // Only list the folder with this urlPath
+  urlPath?: string;
+  // Subdirectory of that folder to list instead of its root
+  path?: string;
+  // Levels of directories to expand below the listed one
+  depth?: number;
+  // Window into the listed directory's own children
+  offset?: number;
+  // Maximum children returned per directory
+  limit?: number;
+}
+
 export class StaticFilesService {
   private readonly pluginDir: string;
+  private readonly fileTreeBuilder = new FileTreeBuilder();
+  private readonly fileTreeCache = new FileTreeCache(this.fileTreeBuilder);
 
   constructor(pluginDir: string) {
     this.pluginDir = pluginDir;
   }
 
-  async listAllStaticFiles(staticFiles: StaticFileConfig[]): Promise<StaticFilesResult[]> {
+  /**
+   * Shared folders are listed from the plugin dir. Per-user folders are listed
+   * from the caller's session workspace, and are empty without one. Each file
+   * gets the download link returned by fileUrl for its /filesystem path.
+   * Shared folders are cached until a watcher sees them change.
+   */
+  async listAllStaticFiles(
+    staticFiles: StaticFileConfig[],
+    workspacePath: string | undefined,
+    fileUrl: (config: StaticFileConfig, filePath: string) => string,
+    options: ListingOptions = {}
+  ): Promise<StaticFilesResult[]> {
     const results: StaticFilesResult[] = [];
+    const selected = options.urlPath
+      ? staticFiles.filter((config) => config.urlPath === options.urlPath)
+      : staticFiles;
 
-    for (const config of staticFiles) {
-      const folderPath = path.join(this.pluginDir, config.folder.replace(/^\.\//, ''));
+    for (const config of selected) {
+      const access = config.access ?? 'shared';
+      const auth = config.auth ?? 'token';
 
       try {
-        const tree = await this.buildFileTree(folderPath);
+        const root = this.rootFor(config, workspacePath);
+        let tree: FileTreeNode = { name: path.basename(config.folder), type: 'directory', children: [] };
+        if (root) {
+          const folderPath = await this.folderPath(root, config);
+          tree = access === 'shared'
+            ? await this.fileTreeCache.get(folderPath)
+            : await this.fileTreeBuilder.build(folderPath);
+        }
+
+        const subPath = options.path?.replace(/^\/+|\/+$/g, '') ?? '';
+        const prefix = [config.urlPath.replace(/^\//, ''), subPath].filter(Boolean).join('/');
         results.push({
           folder: config.folder,
           urlPath: config.urlPath,
-          files: tree,
+          access,
+          auth,
+          files: this.addFileUrls(
+            this.limit(this.findDirectory(tree, subPath), options, options.depth ?? Infinity, true),
+            prefix,
+            (filePath) => fileUrl(config, filePath)
+          ),
         });
       } catch (error) {
+        if (error instanceof RuntimeError) {
+          throw error;
+        }
         console.error(`Failed to list files in ${config.folder}:`, (error as Error).message);
         // Include entry with error indicator
         results.push({
           folder: config.folder,
           urlPath: config.urlPath,
+          access,
+          auth,
           files: {
             name: path.basename(config.folder),
             type: 'directory',
@@ -46,54 +106,93 @@ export class StaticFilesService {
     return results;
   }
 
-  private async buildFileTree(dirPath: string): Promise<FileTreeNode> {
-    const stats = await fs.stat(dirPath);
-    const name = path.basename(dirPath);
+  // Folder serving a /filesystem path such as "docs/guide.pdf"
+  findConfig(staticFiles: StaticFileConfig[], requestedPath: string): StaticFileConfig | undefined {
+    return staticFiles.find((config) => requestedPath.startsWith(config.urlPath.replace(/^\//, '')));
+  }
 
-    if (!stats.isDirectory()) {
-      return {
-        name,
-        type: 'file',
-        size: stats.size,
-      };
+  /**
+   * Absolute path for a /filesystem request such as "docs/guide.pdf", or null
+   * when no configured folder serves it to this caller. Throws on paths
+   * escaping the folder.
+   */
+  async resolveFile(
+    staticFiles: StaticFileConfig[],
+    requestedPath: string,
+    workspacePath?: string
+  ): Promise<string | null> {
+    const config = this.findConfig(staticFiles, requestedPath);
+    const root = config && this.rootFor(config, workspacePath);
+    if (!config || !root) {
+      return null;
     }
 
-    const entries = await fs.readdir(dirPath, { withFileTypes: true });
-    const children: FileTreeNode[] = [];
+    const urlPathWithoutSlash = config.urlPath.replace(/^\//, '');
+    const relativePath = requestedPath.slice(urlPathWithoutSlash.length).replace(/^\//, '');
+    return new PathGuard(await this.folderPath(root, config)).resolveForRead(relativePath);
+  }
 
-    for (const entry of entries) {
-      // Skip hidden files and directories
-      if (entry.name.startsWith('.')) {
-        continue;
+  // Directory at a "/"-separated path inside the tree
+  private findDirectory(tree: FileTreeNode, subPath: string): FileTreeNode {
+    let node = tree;
+    for (const segment of subPath.split('/').filter(Boolean)) {
+      const child = node.children?.find((entry) => entry.name === segment);
+      if (!child || child.type !== 'directory') {
+        throw new RuntimeError('Directory not found', 'DIRECTORY_NOT_FOUND', 404);
       }
+      node = child;
+    }
+    return node;
+  }
 
-      const entryPath = path.join(dirPath, entry.name);
-
-      if (entry.isDirectory()) {
-        const subTree = await this.buildFileTree(entryPath);
-        children.push(subTree);
-      } else if (entry.isFile()) {
-        const fileStats = await fs.stat(entryPath);
-        children.push({
-          name: entry.name,
-          type: 'file',
-          size: fileStats.size,
-        });
-      }
+  // Copy of the tree cut down to the requested depth and page size
+  private limit(node: FileTreeNode, options: ListingOptions, depth: number, isRoot: boolean): FileTreeNode {
+    if (node.type === 'file' || !node.children) {
+      return node;
     }
 
-    // Sort: directories first, then files, alphabetically
-    children.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === 'directory' ? -1 : 1;
-      }
-      return a.name.localeCompare(b.name);
-    });
+    const total = node.children.length;
+    if (depth <= 0) {
+      const { children: _children, ...rest } = node;
+      return { ...rest, childCount: total };
+    }
+
+    const start = isRoot ? options.offset ?? 0 : 0;
+    const end = options.limit === undefined ? total : start + options.limit;
+    const children = node.children
+      .slice(start, end)
+      .map((child) => this.limit(child, options, depth - 1, false));
+
+    return children.length < total
+      ? { ...node, children, childCount: total }
+      : { ...node, children };
+  }
+
+  // Copy of the tree with a url on every file; the root stands for the folder itself
+  private addFileUrls(
+    node: FileTreeNode,
+    prefix: string,
+    fileUrl: (filePath: string) => string,
+    isRoot: boolean = true
+  ): FileTreeNode {
+    const nodePath = isRoot ? prefix : `${prefix}/${node.name}`;
+
+    if (node.type === 'file') {
+      return { ...node, url: fileUrl(nodePath) };
+    }
 
     return {
-      name,
-      type: 'directory',
-      children,
+      ...node,
+      children: node.children?.map((child) => this.addFileUrls(child, nodePath, fileUrl, false)),
     };
   }
+
+  // Per-user folders only exist inside a session workspace
+  private rootFor(config: StaticFileConfig, workspacePath?: string): string | undefined {
+    return config.access === 'per-user' ? workspacePath : this.pluginDir;
+  }
+
+  private folderPath(root: string, config: StaticFileConfig): Promise<string> {
+    return new PathGuard(root).resolveForRead(config.folder.replace(/^\.\//, ''));
+  }
 }
@@ -0,0 +1,84 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { JsonSchema, StructuredResult } from './types.js';
+
+/**
+ * Asks Claude for JSON matching a schema and checks what comes back. The
+ * answer may be bare JSON or wrapped in prose or a code fence.
+ */
+export class StructuredOutput {
+  /**
+   * Throws when the schema itself is not valid. Every schema gets its own
+   * Ajv instance, since Ajv keeps what it compiled and schemas come per request.
+   */
+  compile(schema: JsonSchema): ValidateFunction {
+    try {
+      return new Ajv.default({ allErrors: true, strict: false }).compile(schema);
+    } catch (error) {
+      throw new Error(`outputSchema is not a valid JSON Schema: ${(error as Error).message}`);
+    }
+  }
+
+  // Appended to the system prompt
+  instructions(schema: JsonSchema): string {
+    return [
+      'Your final answer must be a single JSON value matching the JSON Schema below.',
+      'Reply with only the JSON, without prose or code fences.',
+      '',
+      JSON.stringify(schema, null, 2),
+    ].join('\n');
+  }
+
+  // Prompt for the one retry after an answer that did not validate
+  retryPrompt(errors: string[]): string {
+    return [
+      'Your answer did not match the required JSON Schema:',
+      ...errors.map((error) => `- ${error}`),
+      '',
+      'Reply again with only the corrected JSON.',
+    ].join('\n');
+  }
+
+  check(schema: JsonSchema, text: string): StructuredResult {
+    const parsed = this.extract(text);
+    if (!parsed.found) {
+      return { data: null, valid: false, errors: ['The answer contains no JSON'] };
+    }
+
+    const validate = this.compile(schema);
+    if (validate(parsed.data)) {
+      return { data: parsed.data, valid: true, errors: [] };
+    }
+
+    return {
+      data: parsed.data,
+      valid: false,
+      errors: (validate.errors ?? []).map((error) => `${error.instancePath || '(root)'} ${error.message}`),
+    };
+  }
+
+  // Whole text first, then the last code fence, then the outermost braces
+  private extract(text: string): { found: boolean; data: unknown } {
+    const candidates = [text.trim()];
+
+    const fences = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+    if (fences.length > 0) {
+      candidates.push(fences[fences.length - 1][1].trim());
+    }
+
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return { found: true, data: JSON.parse(candidate) };
+      } catch {
+        // Try the next one
+      }
+    }
+
+    return { found: false, data: null };
+  }
+}
@@ -0,0 +1,190 @@
+import { ContentBlock } from './types.js';
+import { TranscriptEntry } from './TranscriptStore.js';
+
+export type TranscriptFormat = 'json' | 'md' | 'html';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'md', 'html'];
+
+interface TranscriptMeta {
+  sessionId: string;
+  title?: string;
+}
+
+// One rendered turn: a prompt followed by the blocks Claude produced
+interface Turn {
+  timestamp: number;
+  prompt: string;
+  blocks: ContentBlock[];
+  costUsd?: number;
+  error?: string;
+}
+
+/**
+ * Renders transcripts for export. Blocks are laid out the same way the web
+ * interface's StreamingMessageDisplay shows them.
+ */
+export class TranscriptRenderer {
+  toMarkdown(meta: TranscriptMeta, entries: TranscriptEntry[]): string {
+    const lines: string[] = [`# ${meta.title || `Session ${meta.sessionId}`}`, ''];
+
+    for (const turn of this.toTurns(entries)) {
+      lines.push(`## User — ${new Date(turn.timestamp).toISOString()}`, '', turn.prompt, '');
+      lines.push('## Assistant', '');
+
+      for (const block of turn.blocks) {
+        switch (block.type) {
+          case 'text':
+            lines.push(block.text, '');
+            break;
+          case 'tool_use':
+            lines.push(`**Tool: ${block.name}**`, '', ...this.codeBlock(JSON.stringify(block.input, null, 2), 'json'), '');
+            break;
+          case 'tool_result':
+            lines.push(`**${block.is_error ? 'Error' : 'Result'}**`, '', ...this.codeBlock(this.toolResultText(block.content)), '');
+            break;
+          case 'thinking':
+            lines.push('**Thinking**', '', ...block.thinking.split('\n').map((line) => `> ${line}`), '');
+            break;
+        }
+      }
+
+      if (turn.error) {
+        lines.push(`*Error: ${turn.error}*`, '');
+      }
+      if (turn.costUsd !== undefined) {
+        lines.push(`*Cost: $${turn.costUsd.toFixed(4)}*`, '');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  toHtml(meta: TranscriptMeta, entries: TranscriptEntry[]): string {
+    const title = this.escape(meta.title || `Session ${meta.sessionId}`);
+    const body: string[] = [];
+
+    for (const turn of this.toTurns(entries)) {
+      body.push(
+        `<div class="turn user"><div class="label">User · ${new Date(turn.timestamp).toISOString()}</div>` +
+          `<div class="text">${this.escape(turn.prompt)}</div></div>`
+      );
+      body.push('<div class="turn assistant">');
+
+      for (const block of turn.blocks) {
+        switch (block.type) {
+          case 'text':
+            body.push(`<div class="text">${this.escape(block.text)}</div>`);
+            break;
+          case 'tool_use':
+            body.push(
+              `<div class="block tool-use"><div class="label">${this.escape(block.name)}</div>` +
+                `<pre>${this.escape(JSON.stringify(block.input, null, 2))}</pre></div>`
+            );
+            break;
+          case 'tool_result':
+            body.push(
+              `<div class="block ${block.is_error ? 'tool-error' : 'tool-result'}">` +
+                `<div class="label">${block.is_error ? 'Error' : 'Result'}</div>` +
+                `<pre>${this.escape(this.toolResultText(block.content))}</pre></div>`
+            );
+            break;
+          case 'thinking':
+            body.push(
+              `<div class="block thinking"><div class="label">Thinking</div>` +
+                `<div class="text">${this.escape(block.thinking)}</div></div>`
+            );
+            break;
+        }
+      }
+
+      if (turn.error) {
+        body.push(`<div class="meta">Error: ${this.escape(turn.error)}</div>`);
+      }
+      if (turn.costUsd !== undefined) {
+        body.push(`<div class="meta">Cost: $${turn.costUsd.toFixed(4)}</div>`);
+      }
+      body.push('</div>');
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: ui-monospace, monospace; font-size: 14px; max-width: 860px; margin: 2rem auto; color: #111827; }
+  .turn { margin: 1.5rem 0; }
+  .user { background: #f3f4f6; border-radius: 8px; padding: 0.75rem; }
+  .label { font-weight: 600; margin-bottom: 0.5rem; }
+  .text { white-space: pre-wrap; margin: 0.5rem 0; }
+  .block { border: 1px solid; border-radius: 4px; padding: 0.75rem; margin: 0.5rem 0; }
+  .block pre { white-space: pre-wrap; font-size: 12px; margin: 0; }
+  .tool-use { background: #eff6ff; border-color: #bfdbfe; color: #1d4ed8; }
+  .tool-result { background: #f0fdf4; border-color: #bbf7d0; color: #15803d; }
+  .tool-error { background: #fef2f2; border-color: #fecaca; color: #b91c1c; }
+  .thinking { background: #faf5ff; border-color: #e9d5ff; color: #7e22ce; font-style: italic; }
+  .meta { color: #9ca3af; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${body.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  private toTurns(entries: TranscriptEntry[]): Turn[] {
+    const turns: Turn[] = [];
+
+    for (const entry of entries) {
+      if (entry.type === 'prompt') {
+        turns.push({ timestamp: entry.timestamp, prompt: entry.prompt, blocks: [] });
+        continue;
+      }
+
+      const turn = turns[turns.length - 1];
+      if (!turn) continue;
+
+      const event = entry.event;
+      if (event.type === 'assistant' || event.type === 'user') {
+        const content = event.message.content;
+        const blocks: ContentBlock[] = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+
+        // User events carry the tool results Claude Code fed back to the model
+        turn.blocks.push(
+          ...blocks.filter((block) => event.type === 'assistant' || block.type === 'tool_result')
+        );
+      } else if (event.type === 'result') {
+        turn.costUsd = event.total_cost_usd;
+        if (event.is_error) {
+          turn.error = event.result;
+        } else if (turn.blocks.length === 0 && event.result) {
+          // Non-streaming runs only record the final result
+          turn.blocks.push({ type: 'text', text: event.result });
+        }
+      }
+    }
+
+    return turns;
+  }
+
+  // Fence longer than any backtick run in the content so it cannot close early
+  private codeBlock(content: string, language: string = ''): string[] {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return [`${fence}${language}`, content, fence];
+  }
+
+  private toolResultText(content: string | ContentBlock[]): string {
+    return typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
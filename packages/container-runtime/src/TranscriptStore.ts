@@ -0,0 +1,121 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { createHash } from 'crypto';
+import path from 'path';
+import { StreamEvent } from './types.js';
+
+export type TranscriptEntry =
+  | { type: 'prompt'; timestamp: number; executionId: string; prompt: string }
+  | { type: 'event'; timestamp: number; executionId: string; event: StreamEvent };
+
+// Streaming fragments, queue updates, checkpoint markers and tool approvals are not part of the conversation
+const SKIPPED_EVENTS = new Set(['partial', 'queued', 'checkpoint', 'permission_request', 'permission_resolved']);
+
+/**
+ * JSONL transcript per session: every prompt and the stream events it
+ * produced. Appended to, and only cut short when a checkpoint is restored.
+ */
+export class TranscriptStore {
+  private readonly dir: string;
+  // Serialises writes per session so lines never interleave
+  private readonly writeChains = new Map<string, Promise<void>>();
+
+  constructor(dataDir: string) {
+    this.dir = path.join(dataDir, 'transcripts');
+  }
+
+  appendPrompt(sessionId: string, executionId: string, prompt: string): Promise<void> {
+    return this.append(sessionId, { type: 'prompt', timestamp: Date.now(), executionId, prompt });
+  }
+
+  appendEvent(sessionId: string, executionId: string, event: StreamEvent): Promise<void> {
+    if (SKIPPED_EVENTS.has(event.type)) {
+      return Promise.resolve();
+    }
+    return this.append(sessionId, { type: 'event', timestamp: Date.now(), executionId, event });
+  }
+
+  async read(sessionId: string): Promise<TranscriptEntry[]> {
+    await this.writeChains.get(sessionId);
+    return this.readEntries(sessionId);
+  }
+
+  /**
+   * Drop the entries from the given execution on, plus anything written at
+   * or after fromTimestamp, e.g. turns undone by restoring a checkpoint.
+   */
+  truncate(sessionId: string, fromExecutionId: string | undefined, fromTimestamp: number): Promise<void> {
+    return this.enqueue(sessionId, async () => {
+      const entries = await this.readEntries(sessionId);
+      const cut = entries.findIndex(
+        (entry) => entry.executionId === fromExecutionId || entry.timestamp >= fromTimestamp
+      );
+      if (cut === -1) {
+        return;
+      }
+
+      const filePath = this.filePath(sessionId);
+      const kept = entries.slice(0, cut).map((entry) => JSON.stringify(entry) + '\n');
+      await fs.writeFile(`${filePath}.tmp`, kept.join(''));
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.writeChains.get(sessionId);
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  private async readEntries(sessionId: string): Promise<TranscriptEntry[]> {
+    const filePath = this.filePath(sessionId);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return [];
+    }
+
+    const entries: TranscriptEntry[] = [];
+    const rl = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as TranscriptEntry);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+
+    return entries;
+  }
+
+  private append(sessionId: string, entry: TranscriptEntry): Promise<void> {
+    return this.enqueue(sessionId, async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.appendFile(this.filePath(sessionId), JSON.stringify(entry) + '\n');
+    });
+  }
+
+  private enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const chain = (this.writeChains.get(sessionId) ?? Promise.resolve())
+      .then(task)
+      .catch((error) => {
+        console.error('Failed to write transcript:', (error as Error).message);
+      });
+
+    this.writeChains.set(sessionId, chain);
+    chain.then(() => {
+      if (this.writeChains.get(sessionId) === chain) {
+        this.writeChains.delete(sessionId);
+      }
+    });
+
+    return chain;
+  }
+
+  // Session IDs come from clients, so never use them as file names directly
+  private filePath(sessionId: string): string {
+    const name = createHash('sha256').update(sessionId).digest('hex');
+    return path.join(this.dir, `${name}.jsonl`);
+  }
+}
@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import path from 'path';
+import { ResultEvent } from './types.js';
+
+export interface UsageRecord {
+  executionId: string;
+  timestamp: number;
+  // Stable caller ID, see AuthConfig.callerId
+  callerId: string;
+  sessionId?: string;
+  // Slash command the prompt started with, e.g. "/review"
+  command?: string;
+  costUsd: number;
+  durationMs: number;
+  durationApiMs: number;
+  numTurns: number;
+  isError: boolean;
+}
+
+export type UsageGroupBy = 'caller' | 'session' | 'command' | 'day';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['caller', 'session', 'command', 'day'];
+
+export interface UsageFilter {
+  from?: number;
+  to?: number;
+  callerId?: string;
+}
+
+export interface UsageSummary {
+  key: string;
+  executions: number;
+  costUsd: number;
+  durationMs: number;
+  durationApiMs: number;
+  numTurns: number;
+}
+
+/**
+ * Append-only JSONL log of what each execution cost. Every execution gets
+ * one row when it ends, summed over its ResultEvents; runs that failed or
+ * were cancelled before a result still get a row.
+ *
+ * The file is read once by load() and kept in memory after that. Emits
+ * 'record' with every UsageRecord appended.
+ */
+export class UsageLedger extends EventEmitter {
+  private readonly filePath: string;
+  private records: UsageRecord[] = [];
+  // Serialises appends so concurrent executions never interleave lines
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    super();
+    this.filePath = path.join(dataDir, 'usage.jsonl');
+  }
+
+  async load(): Promise<void> {
+    const records: UsageRecord[] = [];
+
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return;
+    }
+
+    const rl = createInterface({
+      input: createReadStream(this.filePath),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+
+    this.records = records;
+  }
+
+  record(
+    executionId: string,
+    callerId: string,
+    sessionId: string | undefined,
+    prompt: string,
+    results: ResultEvent[],
+    failed: boolean
+  ): Promise<void> {
+    const sum = (value: (result: ResultEvent) => number | undefined) =>
+      results.reduce((total, result) => total + (value(result) ?? 0), 0);
+
+    const record: UsageRecord = {
+      executionId,
+      timestamp: Date.now(),
+      callerId,
+      sessionId,
+      command: this.commandFromPrompt(prompt),
+      costUsd: sum((result) => result.total_cost_usd),
+      durationMs: sum((result) => result.duration_ms),
+      durationApiMs: sum((result) => result.duration_api_ms),
+      numTurns: sum((result) => result.num_turns),
+      // The last result decides, e.g. after a structured output retry
+      isError: failed || (results[results.length - 1]?.is_error ?? false),
+    };
+
+    this.records.push(record);
+    this.emit('record', record);
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(record) + '\n');
+      })
+      .catch((error) => {
+        console.error('Failed to record usage:', (error as Error).message);
+      });
+
+    return this.writeChain;
+  }
+
+  query(filter: UsageFilter = {}): UsageRecord[] {
+    return this.records.filter(
+      (record) =>
+        (filter.from === undefined || record.timestamp >= filter.from) &&
+        (filter.to === undefined || record.timestamp < filter.to) &&
+        (filter.callerId === undefined || record.callerId === filter.callerId)
+    );
+  }
+
+  summarize(records: UsageRecord[], groupBy: UsageGroupBy): UsageSummary[] {
+    const groups = new Map<string, UsageRecord[]>();
+
+    for (const record of records) {
+      const key = this.groupKey(record, groupBy);
+      const group = groups.get(key);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(key, [record]);
+      }
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.total(group, key))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  total(records: UsageRecord[], key: string = 'total'): UsageSummary {
+    const summary: UsageSummary = {
+      key,
+      executions: 0,
+      costUsd: 0,
+      durationMs: 0,
+      durationApiMs: 0,
+      numTurns: 0,
+    };
+
+    for (const record of records) {
+      summary.executions++;
+      summary.costUsd += record.costUsd;
+      summary.durationMs += record.durationMs;
+      summary.durationApiMs += record.durationApiMs;
+      summary.numTurns += record.numTurns;
+    }
+
+    return summary;
+  }
+
+  private groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+    switch (groupBy) {
+      case 'caller':
+        return record.callerId;
+      case 'session':
+        return record.sessionId || '(none)';
+      case 'command':
+        return record.command || '(none)';
+      case 'day':
+        return new Date(record.timestamp).toISOString().slice(0, 10);
+    }
+  }
+
+  private commandFromPrompt(prompt: string): string | undefined {
+    const match = prompt.trim().match(/^\/([\w:-]+)/);
+    return match ? `/${match[1]}` : undefined;
+  }
+}
+
+/**
+ * Render rows as CSV with a header taken from the given columns.
+ */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  const escape = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    let text = String(value);
+    // Caller-supplied text must not open as a formula in a spreadsheet
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escape(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,257 @@
+import { IncomingMessage, Server as HttpServer } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ExecutionService } from './ExecutionService.js';
+import { AuthManager } from './auth/AuthManager.js';
+import { PermissionBroker } from './PermissionBroker.js';
+import { executionRegistry } from './ExecutionRegistry.js';
+import { ReplayBuffer } from './ReplayBuffer.js';
+import { RuntimeError } from './errors.js';
+import { ClientMessage, ExecuteRequest, RuntimeConfig, ToolApprovalMessage } from './types.js';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+interface Connection {
+  socket: WebSocket;
+  upgradeRequest: IncomingMessage;
+  sessionId: string;
+  executionId: string | null;
+  // Cancel sent before the queued execution had an ID
+  cancelRequested: boolean;
+  detach: (() => void) | null;
+  alive: boolean;
+}
+
+/**
+ * Bidirectional transport on /ws. Each socket is bound to one session and
+ * carries the same events as /execute/stream, while the client can send
+ * prompts, cancellations, tool approvals and heartbeats on the same socket.
+ */
+export class WebSocketGateway {
+  private readonly executionService: ExecutionService;
+  private readonly authManager: AuthManager;
+  private readonly permissionBroker: PermissionBroker;
+  private readonly config: RuntimeConfig;
+  private readonly validateRequest: (body: unknown) => ExecuteRequest;
+  private readonly connections = new Set<Connection>();
+  private wss: WebSocketServer | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    executionService: ExecutionService,
+    authManager: AuthManager,
+    permissionBroker: PermissionBroker,
+    config: RuntimeConfig,
+    validateRequest: (body: unknown) => ExecuteRequest
+  ) {
+    this.executionService = executionService;
+    this.authManager = authManager;
+    this.permissionBroker = permissionBroker;
+    this.config = config;
+    this.validateRequest = validateRequest;
+  }
+
+  attach(server: HttpServer): void {
+    this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.wss.on('connection', (socket, req) => this.handleConnection(socket, req));
+    this.wss.on('close', () => this.stopHeartbeat());
+    this.startHeartbeat();
+  }
+
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const url = new URL(req.url || '/ws', 'http://localhost');
+
+    const connection: Connection = {
+      socket,
+      upgradeRequest: req,
+      sessionId: url.searchParams.get('sessionId') || randomUUID(),
+      executionId: null,
+      cancelRequested: false,
+      detach: null,
+      alive: true,
+    };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+
+    socket.on('message', (data) => {
+      connection.alive = true;
+      this.handleMessage(connection, data.toString()).catch((error) => {
+        this.send(connection, {
+          type: 'error',
+          error: (error as Error).message,
+          ...(error instanceof RuntimeError ? { code: error.code, ...error.details } : {}),
+        });
+      });
+    });
+
+    socket.on('close', () => {
+      this.connections.delete(connection);
+      connection.detach?.();
+
+      // Same grace period as a dropped SSE stream - the run can still be
+      // picked up through GET /execute/stream/:executionId
+      if (connection.executionId) {
+        executionRegistry.scheduleCancel(connection.executionId, this.config.reconnectGraceMs);
+      }
+    });
+
+    this.send(connection, { type: 'session', sessionId: connection.sessionId });
+  }
+
+  private async handleMessage(connection: Connection, raw: string): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw) as ClientMessage;
+    } catch {
+      throw new Error('Messages must be JSON');
+    }
+
+    switch (message.type) {
+      case 'prompt':
+        return this.handlePrompt(connection, message);
+
+      case 'cancel':
+        // Still being admitted; cancelled as soon as it is queued
+        if (connection.executionId === '') {
+          connection.cancelRequested = true;
+          return;
+        }
+        if (!connection.executionId || !executionRegistry.cancel(connection.executionId)) {
+          throw new Error('No running execution to cancel');
+        }
+        return;
+
+      case 'tool_approval':
+        return this.handleToolApproval(connection, message);
+
+      case 'ping':
+        this.send(connection, { type: 'pong', timestamp: Date.now() });
+        return;
+
+      default:
+        throw new Error(`Unknown message type: ${(message as { type?: string }).type}`);
+    }
+  }
+
+  private async handlePrompt(connection: Connection, message: ClientMessage): Promise<void> {
+    if (connection.executionId !== null) {
+      throw new Error('An execution is already running on this connection');
+    }
+
+    const auth = this.authManager.resolveAuth({
+      headers: connection.upgradeRequest.headers,
+      body: message,
+    });
+
+    if (!auth) {
+      this.send(connection, {
+        type: 'error',
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+      return;
+    }
+
+    const request = this.validateRequest(message);
+    request.apiKey = auth.apiKey;
+    request.callerId = auth.callerId;
+    request.sessionId = connection.sessionId;
+
+    // Reserve the connection while the execution is admitted
+    connection.executionId = '';
+    connection.cancelRequested = false;
+
+    let execution;
+    try {
+      execution = await this.executionService.executeStreaming(request);
+    } catch (error) {
+      connection.executionId = null;
+      throw error;
+    }
+
+    const { emitter, executionId } = execution;
+    connection.executionId = executionId;
+
+    const buffer = ReplayBuffer.fromExecution(executionId, emitter, this.config.replayBufferSize);
+    executionRegistry.registerStream(executionId, buffer, auth.callerId);
+
+    for (const event of buffer.since(0).events) {
+      this.send(connection, event.data, event.id);
+    }
+
+    const onEvent = (event: { id: number; data: unknown }) => {
+      this.send(connection, event.data, event.id);
+    };
+
+    buffer.on('event', onEvent);
+    connection.detach = () => buffer.off('event', onEvent);
+
+    buffer.once('close', () => {
+      connection.detach?.();
+      connection.detach = null;
+      connection.executionId = null;
+    });
+
+    if (connection.cancelRequested) {
+      executionRegistry.cancel(executionId);
+    }
+  }
+
+  private handleToolApproval(connection: Connection, message: ToolApprovalMessage): void {
+    const auth = this.authManager.resolveAuth({
+      headers: connection.upgradeRequest.headers,
+      body: message,
+    });
+
+    if (!auth) {
+      this.send(connection, {
+        type: 'error',
+        error: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      });
+      return;
+    }
+
+    // Same owner check as POST /permissions/:requestId
+    const request = this.permissionBroker.get(message.requestId, auth.callerId);
+    if (!request) {
+      throw new Error(`No pending approval request ${message.requestId}`);
+    }
+    if (message.decision !== 'allow' && message.decision !== 'deny') {
+      throw new Error('decision must be "allow" or "deny"');
+    }
+
+    this.permissionBroker.respond(request.id, message.decision, message.remember === true);
+  }
+
+  private send(connection: Connection, data: unknown, id?: number): void {
+    if (connection.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const payload = id === undefined ? data : { ...(data as object), eventId: id };
+    connection.socket.send(JSON.stringify(payload));
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatInterval = setInterval(() => {
+      for (const connection of this.connections) {
+        if (!connection.alive) {
+          connection.socket.terminate();
+          continue;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+  }
+}
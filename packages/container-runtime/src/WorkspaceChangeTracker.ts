@@ -0,0 +1,232 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { FileChange } from './types.js';
+
+interface FileState {
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * A workspace as it was before a run. Text content is kept for small files
+ * so they can be diffed afterwards; large files are not inspected.
+ */
+export interface WorkspaceBaseline {
+  root: string;
+  files: Map<string, FileState>;
+  contents: Map<string, string>;
+  binaries: Set<string>;
+}
+
+export interface ChangeTrackerLimits {
+  // Larger text files are reported without a diff
+  maxDiffFileBytes: number;
+  // Total text kept in memory per baseline
+  maxBaselineBytes: number;
+  // Changes reported per run
+  maxChanges: number;
+}
+
+const DEFAULT_LIMITS: ChangeTrackerLimits = {
+  maxDiffFileBytes: 256 * 1024,
+  maxBaselineBytes: 8 * 1024 * 1024,
+  maxChanges: 200,
+};
+
+// Dependencies are too big to track and not something users edit
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+// Bytes inspected when deciding whether a file is text
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Works out which files a run created, modified or deleted, with unified
+ * diffs for text files and size and hash for binaries. Hidden entries are
+ * skipped, like in file listings.
+ */
+export class WorkspaceChangeTracker {
+  private readonly limits: ChangeTrackerLimits;
+
+  constructor(limits: Partial<ChangeTrackerLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  async capture(workspacePath: string): Promise<WorkspaceBaseline> {
+    const files = await this.scan(workspacePath);
+    const contents = new Map<string, string>();
+    const binaries = new Set<string>();
+    let cachedBytes = 0;
+
+    for (const [relativePath, state] of files) {
+      const tooLarge =
+        state.size > this.limits.maxDiffFileBytes ||
+        cachedBytes + state.size > this.limits.maxBaselineBytes;
+      if (tooLarge) {
+        continue;
+      }
+
+      const content = await fs.readFile(path.join(workspacePath, relativePath)).catch(() => null);
+      if (content && this.isBinary(content)) {
+        binaries.add(relativePath);
+      } else if (content) {
+        contents.set(relativePath, content.toString('utf-8'));
+        cachedBytes += state.size;
+      }
+    }
+
+    return { root: workspacePath, files, contents, binaries };
+  }
+
+  /**
+   * Changes since the baseline, sorted by path. Returns whether the list was
+   * cut short at the limit.
+   */
+  async compare(baseline: WorkspaceBaseline): Promise<{ changes: FileChange[]; truncated: boolean }> {
+    const current = await this.scan(baseline.root);
+    const paths = new Set([...baseline.files.keys(), ...current.keys()]);
+    const changes: FileChange[] = [];
+
+    for (const relativePath of [...paths].sort()) {
+      const before = baseline.files.get(relativePath);
+      const after = current.get(relativePath);
+
+      if (before && after && before.size === after.size && before.mtimeMs === after.mtimeMs) {
+        continue;
+      }
+
+      const change = await this.describe(baseline, relativePath, before, after);
+      if (change) {
+        if (changes.length === this.limits.maxChanges) {
+          return { changes, truncated: true };
+        }
+        changes.push(change);
+      }
+    }
+
+    return { changes, truncated: false };
+  }
+
+  private async describe(
+    baseline: WorkspaceBaseline,
+    relativePath: string,
+    before: FileState | undefined,
+    after: FileState | undefined
+  ): Promise<FileChange | null> {
+    const status = !before ? 'created' : !after ? 'deleted' : 'modified';
+    const previous = baseline.contents.get(relativePath);
+
+    if (!after) {
+      return {
+        path: relativePath,
+        status,
+        binary: baseline.binaries.has(relativePath),
+        previousSize: before!.size,
+        diff: previous !== undefined ? this.patch(relativePath, previous, '') : undefined,
+      };
+    }
+
+    const absolutePath = path.join(baseline.root, relativePath);
+    const change: FileChange = {
+      path: relativePath,
+      status,
+      binary: false,
+      size: after.size,
+      previousSize: before?.size,
+    };
+
+    try {
+      // Large files are only sniffed and hashed, never read into memory
+      if (after.size > this.limits.maxDiffFileBytes) {
+        change.binary = await this.sniffBinary(absolutePath);
+        if (change.binary) {
+          change.sha256 = await this.hashFile(absolutePath);
+        }
+        return change;
+      }
+
+      const content = await fs.readFile(absolutePath);
+      change.binary = this.isBinary(content);
+
+      if (change.binary) {
+        change.sha256 = createHash('sha256').update(content).digest('hex');
+      } else {
+        const text = content.toString('utf-8');
+        if (text === previous) {
+          // Touched but unchanged
+          return null;
+        }
+        if (status === 'created' || previous !== undefined) {
+          change.diff = this.patch(relativePath, previous ?? '', text);
+        }
+      }
+    } catch {
+      // Removed again while we were looking
+      return null;
+    }
+
+    return change;
+  }
+
+  private patch(relativePath: string, before: string, after: string): string {
+    // Drop the "=====" separator line jsdiff puts above the file headers
+    return createTwoFilesPatch(`a/${relativePath}`, `b/${relativePath}`, before, after).replace(/^=+\n/, '');
+  }
+
+  // Regular files under root as '/'-separated relative paths
+  private async scan(
+    root: string,
+    prefix: string = '',
+    files = new Map<string, FileState>()
+  ): Promise<Map<string, FileState>> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(root, prefix), { withFileTypes: true });
+    } catch {
+      return files;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await this.scan(root, relativePath, files);
+        }
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(path.join(root, relativePath)).catch(() => null);
+        if (stats) {
+          files.set(relativePath, { size: stats.size, mtimeMs: stats.mtimeMs });
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private async sniffBinary(filePath: string): Promise<boolean> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(BINARY_SNIFF_BYTES), 0, BINARY_SNIFF_BYTES, 0);
+      return this.isBinary(buffer.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  private isBinary(content: Buffer): boolean {
+    return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+  }
+}
@@ -1,14 +1,37 @@
-import { promises as fs } from 'fs';
+import { createWriteStream, promises as fs } from 'fs';
 import path from 'path';
-import { FileInput } from './types.js';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import archiver, { Archiver } from 'archiver';
+import { minimatch } from 'minimatch';
+import { FileInput, FileTreeNode } from './types.js';
+import { FileTreeBuilder } from './FileTreeBuilder.js';
+import { PathGuard, PROTECTED_PLUGIN_PATHS } from './PathGuard.js';
+import { RuntimeError } from './errors.js';
+import { CopyStrategy, WorkspaceStrategy } from './workspaces/index.js';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export interface ArchiveOptions {
+  format: ArchiveFormat;
+  // Glob matched against workspace-relative paths, hidden files excluded
+  include?: string;
+  // Files copied from the plugin dir are left out unless this is set
+  includePluginFiles?: boolean;
+}
 
 export class WorkspaceManager {
   private readonly baseDir: string;
   private readonly pluginDir: string;
+  private readonly strategy: WorkspaceStrategy;
+  private readonly fileTreeBuilder = new FileTreeBuilder();
 
-  constructor(baseDir: string, pluginDir: string) {
+  constructor(baseDir: string, pluginDir: string, strategy: WorkspaceStrategy = new CopyStrategy()) {
     this.baseDir = baseDir;
     this.pluginDir = pluginDir;
+    this.strategy = strategy;
   }
 
   async create(): Promise<string> {
@@ -23,12 +46,108 @@ export class WorkspaceManager {
 
   async writeFiles(workspacePath: string, files: FileInput[]): Promise<void> {
     for (const file of files) {
-      const filePath = path.join(workspacePath, file.path);
+      const filePath = await this.guard(workspacePath).resolveForWrite(file.path);
       await fs.mkdir(path.dirname(filePath), { recursive: true });
-      await fs.writeFile(filePath, file.content);
+      await this.detach(filePath);
+      await fs.writeFile(
+        filePath,
+        file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content
+      );
     }
   }
 
+  /**
+   * Stream content to a file in the workspace, returning the bytes written.
+   */
+  async writeStream(workspacePath: string, relativePath: string, content: Readable): Promise<number> {
+    const filePath = await this.guard(workspacePath).resolveForWrite(relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await this.detach(filePath);
+
+    const output = createWriteStream(filePath);
+    await pipeline(content, output);
+    return output.bytesWritten;
+  }
+
+  async removeFile(workspacePath: string, relativePath: string): Promise<void> {
+    await fs.rm(await this.guard(workspacePath).resolveForWrite(relativePath), { force: true });
+  }
+
+  async exists(workspacePath: string): Promise<boolean> {
+    try {
+      await fs.access(workspacePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Files in the workspace, without the plugin files every workspace gets a
+   * copy of but callers may not read.
+   */
+  async listFiles(workspacePath: string): Promise<FileTreeNode> {
+    const tree = await this.fileTreeBuilder.build(workspacePath);
+    const guard = this.guard(workspacePath);
+    return { ...tree, children: tree.children?.filter((child) => !guard.isProtected(child.name)) };
+  }
+
+  /**
+   * Absolute path of a regular file inside the workspace. Protected plugin
+   * files are reported as missing.
+   */
+  async resolveFile(workspacePath: string, relativePath: string): Promise<string> {
+    const filePath = await this.guard(workspacePath).resolveUnprotected(relativePath);
+
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (!stats?.isFile()) {
+      throw new RuntimeError('File not found', 'FILE_NOT_FOUND', 404);
+    }
+
+    return filePath;
+  }
+
+  async deletePath(workspacePath: string, relativePath: string): Promise<void> {
+    const targetPath = await this.guard(workspacePath).resolveForWrite(relativePath);
+
+    try {
+      await fs.access(targetPath);
+    } catch {
+      throw new RuntimeError('File not found', 'FILE_NOT_FOUND', 404);
+    }
+
+    await fs.rm(targetPath, { recursive: true, force: true });
+  }
+
+  /**
+   * Compressed archive of the workspace, ready to be piped to a response.
+   */
+  async createArchive(workspacePath: string, options: ArchiveOptions): Promise<Archiver> {
+    const pluginFiles = options.includePluginFiles
+      ? new Set<string>()
+      : new Set(await this.listRelativeFiles(this.pluginDir));
+
+    const files = (await this.listRelativeFiles(workspacePath)).filter(
+      (file) => !pluginFiles.has(file) && minimatch(file, options.include || '**')
+    );
+
+    if (files.length === 0) {
+      throw new RuntimeError('No files to archive', 'NO_FILES', 404);
+    }
+
+    const archive =
+      options.format === 'zip'
+        ? archiver('zip', { zlib: { level: 9 } })
+        : archiver('tar', { gzip: true });
+
+    for (const file of files) {
+      archive.file(path.join(workspacePath, file), { name: file });
+    }
+    void archive.finalize();
+
+    return archive;
+  }
+
   async cleanup(workspacePath: string): Promise<void> {
     try {
       await fs.rm(workspacePath, { recursive: true, force: true });
@@ -37,10 +156,41 @@ export class WorkspaceManager {
     }
   }
 
+  // Paths come from clients, so every file operation goes through a guard
+  private guard(workspacePath: string): PathGuard {
+    return new PathGuard(workspacePath, PROTECTED_PLUGIN_PATHS);
+  }
+
+  // Replace rather than write through, so a file hardlinked from the plugin dir is never changed
+  private async detach(filePath: string): Promise<void> {
+    await fs.unlink(filePath).catch(() => undefined);
+  }
+
+  // Regular files under dir as '/'-separated relative paths; symlinks are skipped
+  private async listRelativeFiles(dir: string, prefix: string = ''): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await this.listRelativeFiles(dir, relativePath)));
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
   private async copyPluginFiles(workspacePath: string): Promise<void> {
     try {
       await fs.access(this.pluginDir);
-      await fs.cp(this.pluginDir, workspacePath, { recursive: true });
+      await this.strategy.populate(this.pluginDir, workspacePath);
     } catch {
       // Plugin dir may not exist in dev mode
     }
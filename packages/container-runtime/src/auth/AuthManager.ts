@@ -1,60 +1,129 @@
-import { Request } from 'express';
-import { AuthConfig, AuthStatus } from './types.js';
+import { createHash, timingSafeEqual } from 'crypto';
+import { TokenStore } from './TokenStore.js';
+import { AuthConfig, AuthRequest, AuthSource, AuthStatus, TokenIdentity } from './types.js';
+
+interface PresentedKey {
+  key: string;
+  source: AuthSource;
+}
 
 export class AuthManager {
-  getAuthStatus(): AuthStatus {
+  private readonly tokenStore: TokenStore;
+
+  constructor(tokenStore: TokenStore) {
+    this.tokenStore = tokenStore;
+  }
+
+  getAuthStatus(req: AuthRequest): AuthStatus {
     if (process.env.ANTHROPIC_API_KEY) {
+      const identity = this.resolveIdentity(req);
       return {
-        authenticated: true,
+        authenticated: identity !== null,
         source: 'environment',
+        tokenRequired: true,
+        identity: identity ?? undefined,
       };
     }
 
     return {
       authenticated: false,
       source: 'none',
+      tokenRequired: false,
     };
   }
 
-  resolveAuth(req: Request): AuthConfig | null {
-    // 1. Check env var
+  resolveAuth(req: AuthRequest): AuthConfig | null {
+    // 1. Server key - callers must present a bazaar token to spend it
     if (process.env.ANTHROPIC_API_KEY) {
+      const identity = this.resolveIdentity(req);
+      if (!identity) {
+        return null;
+      }
+
       return {
         source: 'environment',
         apiKey: process.env.ANTHROPIC_API_KEY,
+        callerId: `token:${identity.tokenId}`,
+        identity,
       };
     }
 
-    // 2. Check Authorization header (Bearer token)
+    // 2. Caller's own Anthropic key
+    const presented = this.getPresentedKey(req);
+    if (!presented) {
+      return null;
+    }
+
+    return {
+      source: presented.source,
+      apiKey: presented.key,
+      callerId: `key:${createHash('sha256').update(presented.key).digest('hex').slice(0, 16)}`,
+    };
+  }
+
+  /**
+   * Token administration is allowed with BAZAAR_ADMIN_SECRET or an
+   * admin-scoped bazaar token.
+   */
+  isAdmin(req: AuthRequest): boolean {
+    const presented = this.getPresentedKey(req);
+    if (!presented) {
+      return false;
+    }
+
+    const adminSecret = process.env.BAZAAR_ADMIN_SECRET;
+    if (adminSecret && this.secretsMatch(presented.key, adminSecret)) {
+      return true;
+    }
+
+    return this.tokenStore.verify(presented.key, 'admin') !== null;
+  }
+
+  /**
+   * Whether the request carries a bazaar token or admin credentials. Unlike
+   * resolveAuth, a caller's own Anthropic key does not count.
+   */
+  hasAccessToken(req: AuthRequest): boolean {
+    return this.resolveIdentity(req) !== null || this.isAdmin(req);
+  }
+
+  isAdminEnabled(): boolean {
+    return Boolean(process.env.BAZAAR_ADMIN_SECRET) || this.tokenStore.hasScope('admin');
+  }
+
+  private resolveIdentity(req: AuthRequest): TokenIdentity | null {
+    const presented = this.getPresentedKey(req);
+    return presented ? this.tokenStore.verify(presented.key, 'execute') : null;
+  }
+
+  private getPresentedKey(req: AuthRequest): PresentedKey | null {
+    // Authorization header (Bearer token)
     const authHeader = req.headers.authorization;
     if (authHeader?.startsWith('Bearer ')) {
       const key = authHeader.slice(7).trim();
       if (key) {
-        return {
-          source: 'header',
-          apiKey: key,
-        };
+        return { key, source: 'header' };
       }
     }
 
-    // 3. Check x-api-key header
+    // x-api-key header
     const xApiKey = req.headers['x-api-key'];
     if (xApiKey && typeof xApiKey === 'string') {
-      return {
-        source: 'header',
-        apiKey: xApiKey,
-      };
+      return { key: xApiKey, source: 'header' };
     }
 
-    // 4. Check body
+    // Body
     const bodyKey = (req.body as Record<string, unknown>)?.apiKey;
     if (bodyKey && typeof bodyKey === 'string') {
-      return {
-        source: 'body',
-        apiKey: bodyKey,
-      };
+      return { key: bodyKey, source: 'body' };
     }
 
     return null;
   }
+
+  private secretsMatch(presented: string, secret: string): boolean {
+    const a = Buffer.from(presented);
+    const b = Buffer.from(secret);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
 }
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { AccessToken, TokenIdentity, TokenScope } from './types.js';
+
+const TOKEN_PREFIX = 'bzr_';
+
+export const TOKEN_SCOPES: TokenScope[] = ['execute', 'admin'];
+
+interface StoredToken extends AccessToken {
+  hash: string;
+}
+
+interface TokenFile {
+  tokens: StoredToken[];
+}
+
+export interface CreateTokenOptions {
+  label: string;
+  scopes: TokenScope[];
+  expiresAt?: number;
+}
+
+/**
+ * Bazaar access tokens, persisted as a JSON file. Only a SHA-256 hash of
+ * each token is stored; the plain token is returned once, on creation.
+ */
+export class TokenStore {
+  private readonly filePath: string;
+  private tokens = new Map<string, StoredToken>();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'tokens.json');
+  }
+
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const file = JSON.parse(content) as TokenFile;
+      this.tokens = new Map(file.tokens.map((token) => [token.hash, token]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to load token store: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  async create(options: CreateTokenOptions): Promise<{ token: string; info: AccessToken }> {
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const stored: StoredToken = {
+      id: randomUUID(),
+      label: options.label,
+      scopes: options.scopes,
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      createdAt: Date.now(),
+      expiresAt: options.expiresAt,
+      hash: this.hash(token),
+    };
+
+    this.tokens.set(stored.hash, stored);
+    await this.save();
+
+    return { token, info: this.toInfo(stored) };
+  }
+
+  list(): AccessToken[] {
+    return Array.from(this.tokens.values()).map((token) => this.toInfo(token));
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    for (const [hash, token] of this.tokens) {
+      if (token.id === id) {
+        this.tokens.delete(hash);
+        await this.save();
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Identity for a presented token, or null if it is unknown, expired or
+   * lacks the required scope.
+   */
+  verify(token: string, scope: TokenScope): TokenIdentity | null {
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const stored = this.tokens.get(this.hash(token));
+    if (!stored || !stored.scopes.includes(scope)) {
+      return null;
+    }
+
+    if (stored.expiresAt && stored.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    stored.lastUsedAt = Date.now();
+
+    return {
+      tokenId: stored.id,
+      label: stored.label,
+      scopes: stored.scopes,
+    };
+  }
+
+  hasScope(scope: TokenScope): boolean {
+    return Array.from(this.tokens.values()).some((token) => token.scopes.includes(scope));
+  }
+
+  private async save(): Promise<void> {
+    const file: TokenFile = { tokens: Array.from(this.tokens.values()) };
+
+    // Write to a temp file first so a crash never leaves a truncated store
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private toInfo(token: StoredToken): AccessToken {
+    const { hash: _hash, ...info } = token;
+    return info;
+  }
+}
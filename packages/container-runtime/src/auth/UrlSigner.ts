@@ -0,0 +1,51 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface UrlSignature {
+  // Expiry as Unix seconds
+  exp: number;
+  sig: string;
+}
+
+/**
+ * HMAC signatures for short-lived download links, so browsers can load files
+ * through plain `<a href>` and `<img src>` without an Authorization header.
+ * Without a configured secret, a random one is used and links stop working
+ * when the container restarts.
+ */
+export class UrlSigner {
+  private readonly secret: Buffer;
+  private readonly ttlSeconds: number;
+
+  constructor(secret: string | undefined, ttlSeconds: number) {
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  sign(filePath: string, sessionId?: string): UrlSignature {
+    // Rounded up to the minute, so repeated listings stay byte-identical and
+    // can be answered with a 304
+    const exp = Math.ceil((Date.now() / 1000 + this.ttlSeconds) / 60) * 60;
+    return { exp, sig: this.hmac(filePath, sessionId, exp) };
+  }
+
+  verify(filePath: string, sessionId: string | undefined, exp: unknown, sig: unknown): boolean {
+    if (typeof exp !== 'string' || typeof sig !== 'string') {
+      return false;
+    }
+
+    const expiresAt = parseInt(exp, 10);
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.hmac(filePath, sessionId, expiresAt));
+    const presented = Buffer.from(sig);
+    return expected.length === presented.length && timingSafeEqual(expected, presented);
+  }
+
+  private hmac(filePath: string, sessionId: string | undefined, exp: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${filePath}\n${sessionId ?? ''}\n${exp}`)
+      .digest('base64url');
+  }
+}
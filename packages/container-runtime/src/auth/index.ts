@@ -1,2 +1,6 @@
 export { AuthManager } from './AuthManager.js';
+export { TokenStore, TOKEN_SCOPES } from './TokenStore.js';
+export { UrlSigner } from './UrlSigner.js';
+export type { UrlSignature } from './UrlSigner.js';
+export type { CreateTokenOptions } from './TokenStore.js';
 export * from './types.js';
@@ -1,13 +1,46 @@
+import { IncomingHttpHeaders } from 'http';
+
 export type AuthSource = 'environment' | 'header' | 'body';
 
+export type TokenScope = 'execute' | 'admin';
+
+/**
+ * A bazaar access token as reported to administrators. The token itself is
+ * never stored or returned after creation.
+ */
+export interface AccessToken {
+  id: string;
+  label: string;
+  scopes: TokenScope[];
+  // First characters of the token, to tell tokens apart in listings
+  prefix: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface TokenIdentity {
+  tokenId: string;
+  label: string;
+  scopes: TokenScope[];
+}
+
 export interface AuthConfig {
   source: AuthSource;
   apiKey: string;
+  // Stable ID for the caller: "token:<id>", or "key:<hash prefix>" for callers
+  // using their own Anthropic key. Never contains the secret itself.
+  callerId: string;
+  // Set when the caller authenticated with a bazaar access token
+  identity?: TokenIdentity;
 }
 
 export interface AuthStatus {
   authenticated: boolean;
   source: AuthSource | 'none';
+  // True when the server's own API key is configured and callers need a bazaar token
+  tokenRequired: boolean;
+  identity?: TokenIdentity;
 }
 
 export interface AuthErrorResponse {
@@ -16,3 +49,12 @@ export interface AuthErrorResponse {
   code: 'AUTH_REQUIRED';
   hint: string;
 }
+
+/**
+ * Anything carrying request headers and an optional parsed body - an
+ * Express request, or a WebSocket upgrade request paired with a message.
+ */
+export interface AuthRequest {
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+}
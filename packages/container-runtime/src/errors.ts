@@ -0,0 +1,59 @@
+/**
+ * Errors that map to a specific HTTP status and machine-readable code.
+ * Anything else reaching the error handler is treated as a bad request.
+ */
+export class RuntimeError extends Error {
+  readonly code: string;
+  readonly statusCode: number;
+  // Extra fields merged into the JSON error body
+  readonly details: Record<string, unknown>;
+  // Sent as a Retry-After header when set
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    code: string,
+    statusCode: number,
+    details: Record<string, unknown> = {},
+    retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'RuntimeError';
+    this.code = code;
+    this.statusCode = statusCode;
+    this.details = details;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class QueueFullError extends RuntimeError {
+  constructor(retryAfterSeconds: number) {
+    super('Execution queue is full, try again later', 'QUEUE_FULL', 503, {}, retryAfterSeconds);
+    this.name = 'QueueFullError';
+  }
+}
+
+export class QuotaExceededError extends RuntimeError {
+  readonly limit: string;
+  readonly resetAt: number;
+
+  constructor(message: string, limit: string, resetAt: number) {
+    super(
+      message,
+      'QUOTA_EXCEEDED',
+      429,
+      { limit, resetAt: new Date(resetAt).toISOString() },
+      Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+    );
+    this.name = 'QuotaExceededError';
+    this.limit = limit;
+    this.resetAt = resetAt;
+  }
+}
+
+export class UnsafePathError extends RuntimeError {
+  constructor(message: string, code: 'INVALID_PATH' | 'PROTECTED_PATH' = 'INVALID_PATH') {
+    super(message, code, code === 'PROTECTED_PATH' ? 403 : 400);
+    this.name = 'UnsafePathError';
+  }
+}
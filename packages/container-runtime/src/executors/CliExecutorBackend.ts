@@ -0,0 +1,145 @@
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { EventEmitter } from 'events';
+import { fileURLToPath } from 'url';
+import { PERMISSION_PROMPT_SERVER, PERMISSION_PROMPT_TOOL } from '../PermissionPromptServer.js';
+import { ExecutorBackend, ExecutorProcess, ExecutorRequest } from './types.js';
+
+// How long a process gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_MS = 2000;
+
+const PERMISSION_PROMPT_SCRIPT = fileURLToPath(new URL('../PermissionPromptServer.js', import.meta.url));
+
+/**
+ * Runs the real `claude` CLI in print mode.
+ */
+export class CliExecutorBackend implements ExecutorBackend {
+  start(request: ExecutorRequest): ExecutorProcess {
+    const output = new EventEmitter() as ExecutorProcess;
+
+    const claude = spawn('claude', this.buildArgs(request), {
+      cwd: request.workspacePath,
+      env: this.buildEnv(request),
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const rl = createInterface({ input: claude.stdout!, crlfDelay: Infinity });
+    rl.on('line', (line) => output.emit('line', line));
+
+    claude.stderr?.on('data', (data: Buffer) => output.emit('stderr', data.toString()));
+
+    // Wait for stdout to be fully read so no line arrives after 'exit'
+    const stdoutClosed = new Promise<void>((resolve) => rl.once('close', resolve));
+    claude.on('close', (code, signal) => {
+      stdoutClosed.then(() => {
+        if (code === null && !claude.killed) {
+          output.emit('error', new Error(`Claude Code was killed by ${signal}`));
+        } else {
+          output.emit('exit', claude.killed ? null : code);
+        }
+      });
+    });
+    claude.on('error', (error) => output.emit('error', error));
+
+    output.kill = () => {
+      claude.kill('SIGTERM');
+      setTimeout(() => {
+        if (claude.exitCode === null && claude.signalCode === null) {
+          claude.kill('SIGKILL');
+        }
+      }, KILL_GRACE_MS).unref();
+    };
+
+    return output;
+  }
+
+  private buildArgs(request: ExecutorRequest): string[] {
+    const args = ['-p', request.prompt, ...this.permissionArgs(request)];
+
+    args.push('--output-format', request.outputFormat);
+    if (request.outputFormat === 'stream-json') {
+      args.push('--verbose');
+    }
+
+    if (request.model) {
+      args.push('--model', request.model);
+    }
+
+    if (request.fallbackModel) {
+      args.push('--fallback-model', request.fallbackModel);
+    }
+
+    if (request.maxTurns) {
+      args.push('--max-turns', String(request.maxTurns));
+    }
+
+    if (request.appendSystemPrompt) {
+      args.push('--append-system-prompt', request.appendSystemPrompt);
+    }
+
+    if (request.resumeSessionId) {
+      args.push('--resume', request.resumeSessionId);
+    }
+
+    return args;
+  }
+
+  private permissionArgs(request: ExecutorRequest): string[] {
+    const { permissions, permissionPrompt } = request;
+
+    // Plugins that configure nothing keep running with every tool allowed
+    if (!permissions) {
+      return ['--dangerously-skip-permissions'];
+    }
+
+    const args: string[] = [];
+    if (permissions.mode) {
+      args.push('--permission-mode', permissions.mode);
+    }
+
+    const toBashRules = (patterns: string[] = []) => patterns.map((pattern) => `Bash(${pattern})`);
+    const allowed = [...(permissions.allowedTools ?? []), ...toBashRules(permissions.allowedBashCommands)];
+    const disallowed = [...(permissions.disallowedTools ?? []), ...toBashRules(permissions.disallowedBashCommands)];
+
+    if (allowed.length > 0) {
+      args.push('--allowedTools', ...allowed);
+    }
+    if (disallowed.length > 0) {
+      args.push('--disallowedTools', ...disallowed);
+    }
+
+    // Claude starts the prompt server and calls it for tools that need approval
+    if (permissionPrompt) {
+      const mcpConfig = {
+        mcpServers: {
+          [PERMISSION_PROMPT_SERVER]: {
+            type: 'stdio',
+            command: process.execPath,
+            args: [PERMISSION_PROMPT_SCRIPT],
+            env: {
+              BAZAAR_PERMISSION_URL: permissionPrompt.url,
+              BAZAAR_PERMISSION_TOKEN: permissionPrompt.token,
+            },
+          },
+        },
+      };
+      args.push(
+        '--mcp-config',
+        JSON.stringify(mcpConfig),
+        '--permission-prompt-tool',
+        `mcp__${PERMISSION_PROMPT_SERVER}__${PERMISSION_PROMPT_TOOL}`
+      );
+    }
+
+    return args;
+  }
+
+  // Only set ANTHROPIC_API_KEY for an explicit key, otherwise Claude uses stored credentials
+  private buildEnv(request: ExecutorRequest): NodeJS.ProcessEnv {
+    const env = { ...process.env };
+    if (request.apiKey) {
+      env.ANTHROPIC_API_KEY = request.apiKey;
+    }
+    return env;
+  }
+}
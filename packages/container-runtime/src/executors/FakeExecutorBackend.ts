@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import { PathGuard } from '../PathGuard.js';
+import { StreamEvent } from '../types.js';
+import { ExecutorBackend, ExecutorProcess, ExecutorRequest } from './types.js';
+
+// A prompt starting with "fixture:<name>" replays <name>.jsonl
+const FIXTURE_PROMPT = /^fixture:([\w.-]+)/;
+
+// Fixture lines with a "fake" key are instructions rather than output
+type FakeDirective =
+  | { fake: 'delay'; ms: number }
+  | { fake: 'write'; path: string; content: string }
+  | { fake: 'exit'; code: number; stderr?: string }
+  // Wait until the run is cancelled or times out
+  | { fake: 'hang' };
+
+// Recorded output lines are replayed verbatim
+type FixtureStep = FakeDirective | string;
+
+/**
+ * Stands in for the `claude` CLI by replaying recorded stream-json fixtures,
+ * so the runtime can be exercised without the binary or network access.
+ * Fixtures are read from fixturesDir; without a matching fixture the reply
+ * simply echoes the prompt.
+ */
+export class FakeExecutorBackend implements ExecutorBackend {
+  private readonly fixturesDir?: string;
+
+  constructor(fixturesDir?: string) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  start(request: ExecutorRequest): ExecutorProcess {
+    const output = new EventEmitter() as ExecutorProcess;
+    const controller = new AbortController();
+    output.kill = () => controller.abort();
+
+    // Give the caller a chance to attach listeners first, like a real process
+    setImmediate(() => {
+      this.replay(request, output, controller.signal)
+        .then((code) => output.emit('exit', code))
+        .catch((error) => output.emit('error', error));
+    });
+
+    return output;
+  }
+
+  private async replay(
+    request: ExecutorRequest,
+    output: ExecutorProcess,
+    signal: AbortSignal
+  ): Promise<number | null> {
+    const steps = await this.loadFixture(request.prompt);
+    const guard = new PathGuard(request.workspacePath);
+    // In json mode the CLI prints only the final result
+    let result: string | undefined;
+    const flush = () => {
+      if (result) {
+        output.emit('line', result);
+      }
+    };
+
+    for (const step of steps) {
+      if (signal.aborted) {
+        return null;
+      }
+
+      if (typeof step === 'string') {
+        if (request.outputFormat === 'stream-json') {
+          output.emit('line', step);
+        } else if (this.isResult(step)) {
+          result = step;
+        }
+        continue;
+      }
+
+      switch (step.fake) {
+        case 'delay':
+          await sleep(step.ms, undefined, { signal }).catch(() => undefined);
+          break;
+        case 'write': {
+          const filePath = await guard.resolveForWrite(step.path);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, step.content);
+          break;
+        }
+        case 'exit':
+          flush();
+          if (step.stderr) {
+            output.emit('stderr', step.stderr);
+          }
+          return step.code;
+        case 'hang':
+          if (!signal.aborted) {
+            await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+          }
+          break;
+        default:
+          throw new Error(`Unknown fixture instruction: ${JSON.stringify(step)}`);
+      }
+    }
+
+    if (signal.aborted) {
+      return null;
+    }
+
+    flush();
+    return 0;
+  }
+
+  private async loadFixture(prompt: string): Promise<FixtureStep[]> {
+    const name = FIXTURE_PROMPT.exec(prompt)?.[1];
+
+    if (!this.fixturesDir) {
+      if (name) {
+        throw new Error(`Fixture "${name}" requested but no fixtures directory is configured`);
+      }
+      return this.echoFixture(prompt);
+    }
+
+    const filePath = path.join(this.fixturesDir, `${name ?? 'default'}.jsonl`);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (!name && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.echoFixture(prompt);
+      }
+      throw new Error(`Cannot read fixture ${filePath}: ${(error as Error).message}`);
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => this.parseStep(line));
+  }
+
+  private parseStep(line: string): FixtureStep {
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && 'fake' in parsed) {
+        return parsed as FakeDirective;
+      }
+    } catch {
+      // Not JSON; the CLI prints the odd plain line too
+    }
+    return line;
+  }
+
+  private isResult(line: string): boolean {
+    try {
+      return JSON.parse(line).type === 'result';
+    } catch {
+      return false;
+    }
+  }
+
+  private echoFixture(prompt: string): FixtureStep[] {
+    const sessionId = randomUUID();
+    const reply = `Fake reply to: ${prompt}`;
+    const events: StreamEvent[] = [
+      { type: 'init', session_id: sessionId },
+      { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: reply }] } },
+      {
+        type: 'result',
+        subtype: 'success',
+        total_cost_usd: 0,
+        is_error: false,
+        duration_ms: 0,
+        duration_api_ms: 0,
+        num_turns: 1,
+        result: reply,
+        session_id: sessionId,
+      },
+    ];
+    return events.map((event) => JSON.stringify(event));
+  }
+}
@@ -0,0 +1,18 @@
+import { CliExecutorBackend } from './CliExecutorBackend.js';
+import { FakeExecutorBackend } from './FakeExecutorBackend.js';
+import { ExecutorBackend, ExecutorBackendType } from './types.js';
+
+export { CliExecutorBackend } from './CliExecutorBackend.js';
+export { FakeExecutorBackend } from './FakeExecutorBackend.js';
+export * from './types.js';
+
+export function createExecutorBackend(type: ExecutorBackendType, fixturesDir?: string): ExecutorBackend {
+  switch (type) {
+    case 'cli':
+      return new CliExecutorBackend();
+    case 'fake':
+      return new FakeExecutorBackend(fixturesDir);
+    default:
+      throw new Error(`Unknown executor backend: ${type}. Use "cli" or "fake".`);
+  }
+}
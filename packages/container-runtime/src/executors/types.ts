@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { RunOptions, ToolPermissions } from '../types.js';
+import { PermissionPromptEndpoint } from '../PermissionBroker.js';
+
+export interface ExecutorRequest extends Omit<RunOptions, 'timeout' | 'outputSchema'> {
+  workspacePath: string;
+  prompt: string;
+  // stream-json prints every event as a line, json a single result object at the end
+  outputFormat: 'json' | 'stream-json';
+  apiKey?: string;
+  // Claude session to continue
+  resumeSessionId?: string;
+  // Unset means every tool is allowed
+  permissions?: ToolPermissions;
+  // Where to ask the user about tools, for permissions with askUser
+  permissionPrompt?: PermissionPromptEndpoint;
+}
+
+/**
+ * A running Claude process, reduced to what the runtime reads from it.
+ */
+export interface ExecutorProcess extends EventEmitter {
+  on(event: 'line', listener: (line: string) => void): this;
+  on(event: 'stderr', listener: (text: string) => void): this;
+  // code is null when the process was killed
+  on(event: 'exit', listener: (code: number | null) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  kill(): void;
+}
+
+export interface ExecutorBackend {
+  start(request: ExecutorRequest): ExecutorProcess;
+}
+
+export type ExecutorBackendType = 'cli' | 'fake';
@@ -4,14 +4,53 @@ import { WorkspaceManager } from './WorkspaceManager.js';
 import { ClaudeExecutor } from './ClaudeExecutor.js';
 import { SessionManager } from './SessionManager.js';
 import { PluginConfigLoader } from './PluginConfigLoader.js';
+import { ExecutionQueue } from './ExecutionQueue.js';
+import { AuthManager, TokenStore, UrlSigner } from './auth/index.js';
+import { UsageLedger } from './UsageLedger.js';
+import { QuotaManager } from './QuotaManager.js';
+import { TranscriptStore } from './TranscriptStore.js';
+import { CheckpointStore } from './CheckpointStore.js';
+import { PROTECTED_PLUGIN_PATHS } from './PathGuard.js';
+import { PermissionBroker } from './PermissionBroker.js';
+import { CommandDiscovery } from './CommandDiscovery.js';
+import { StructuredOutput } from './StructuredOutput.js';
+import { createSessionStore, SessionStoreType } from './sessions/index.js';
+import { createWorkspaceStrategy, WorkspaceStrategyType } from './workspaces/index.js';
+import {
+  CliExecutorBackend,
+  createExecutorBackend,
+  ExecutorBackendType,
+  FakeExecutorBackend,
+} from './executors/index.js';
 import { RuntimeConfig } from './types.js';
 
 function loadConfig(): RuntimeConfig {
   return {
     port: parseInt(process.env.PORT || '3000', 10),
     timeout: parseInt(process.env.TIMEOUT || '120000', 10),
+    executorBackend: (process.env.EXECUTOR_BACKEND || 'cli') as ExecutorBackendType,
+    fakeExecutorFixtures: process.env.FAKE_EXECUTOR_FIXTURES,
     pluginDir: process.env.PLUGIN_DIR || '/app/plugin',
     workspaceBaseDir: process.env.WORKSPACE_DIR || '/tmp/bazaar',
+    workspaceStrategy: (process.env.WORKSPACE_STRATEGY || 'copy') as WorkspaceStrategyType,
+    workspaceSharedPaths: (process.env.WORKSPACE_SHARED_PATHS || 'node_modules')
+      .split(',')
+      .map((sharedPath) => sharedPath.trim())
+      .filter(Boolean),
+    dataDir: process.env.DATA_DIR || '/app/data',
+    sessionStore: (process.env.SESSION_STORE || 'memory') as SessionStoreType,
+    sessionIdleTimeoutMs: parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || '1800000', 10),
+    replayBufferSize: parseInt(process.env.REPLAY_BUFFER_SIZE || '1000', 10),
+    reconnectGraceMs: parseInt(process.env.STREAM_RECONNECT_GRACE_MS || '30000', 10),
+    maxConcurrentExecutions: parseInt(process.env.MAX_CONCURRENT_EXECUTIONS || '4', 10),
+    maxConcurrentPerSession: parseInt(process.env.MAX_CONCURRENT_PER_SESSION || '0', 10),
+    maxQueueSize: parseInt(process.env.MAX_QUEUE_SIZE || '20', 10),
+    jsonBodyLimit: process.env.MAX_JSON_BODY || '10mb',
+    maxUploadFileBytes: parseInt(process.env.MAX_UPLOAD_FILE_BYTES || String(100 * 1024 * 1024), 10),
+    maxUploadFiles: parseInt(process.env.MAX_UPLOAD_FILES || '20', 10),
+    signedUrlTtlSeconds: parseInt(process.env.SIGNED_URL_TTL_SECONDS || '900', 10),
+    maxCheckpoints: parseInt(process.env.MAX_CHECKPOINTS || '20', 10),
+    permissionTimeoutMs: parseInt(process.env.PERMISSION_TIMEOUT_MS || '60000', 10),
   };
 }
 
@@ -27,11 +66,81 @@ async function main(): Promise<void> {
   }
 
   // Dependency injection
-  const workspaceManager = new WorkspaceManager(config.workspaceBaseDir, config.pluginDir);
-  const executor = new ClaudeExecutor(config.timeout);
-  const sessionManager = new SessionManager(workspaceManager);
-  const executionService = new ExecutionService(workspaceManager, executor, sessionManager);
-  const server = new Server(executionService, config);
+  const workspaceManager = new WorkspaceManager(
+    config.workspaceBaseDir,
+    config.pluginDir,
+    createWorkspaceStrategy(config.workspaceStrategy, config.workspaceSharedPaths)
+  );
+  const quotas = config.pluginConfig?.quotas;
+  // The permission prompt tool calls back into this server
+  const permissionBroker = new PermissionBroker(`http://127.0.0.1:${config.port}`, config.permissionTimeoutMs);
+  const executor = new ClaudeExecutor(
+    createExecutorBackend(config.executorBackend, config.fakeExecutorFixtures),
+    config.timeout,
+    quotas?.maxTurnsPerRun,
+    config.pluginConfig?.permissions,
+    permissionBroker
+  );
+  if (!config.pluginConfig?.permissions) {
+    console.warn('No permissions configured, Claude may use every tool without asking');
+  }
+  const sessionStore = createSessionStore(config.sessionStore, config.dataDir);
+  // Plugin instructions and shared dependencies are not the session's to roll back
+  const checkpointStore = new CheckpointStore(config.dataDir, config.maxCheckpoints, [
+    ...PROTECTED_PLUGIN_PATHS,
+    ...config.workspaceSharedPaths,
+  ]);
+  const transcriptStore = new TranscriptStore(config.dataDir);
+  const sessionManager = new SessionManager(
+    workspaceManager,
+    executor,
+    sessionStore,
+    checkpointStore,
+    transcriptStore,
+    permissionBroker,
+    { idleTimeoutMs: config.sessionIdleTimeoutMs }
+  );
+
+  const restored = await sessionManager.restore();
+  if (restored > 0) {
+    console.log(`Restored ${restored} session(s)`);
+  }
+  const executionQueue = new ExecutionQueue({
+    maxConcurrent: config.maxConcurrentExecutions,
+    maxPerSession: config.maxConcurrentPerSession,
+    maxQueueSize: config.maxQueueSize,
+  });
+  const usageLedger = new UsageLedger(config.dataDir);
+  await usageLedger.load();
+  const quotaManager = new QuotaManager(usageLedger, quotas);
+  const commandDiscovery = new CommandDiscovery(config.pluginDir);
+  const executionService = new ExecutionService(
+    workspaceManager,
+    executor,
+    sessionManager,
+    executionQueue,
+    usageLedger,
+    quotaManager,
+    transcriptStore,
+    commandDiscovery
+  );
+  const tokenStore = new TokenStore(config.dataDir);
+  await tokenStore.load();
+  const authManager = new AuthManager(tokenStore);
+  const urlSigner = new UrlSigner(process.env.BAZAAR_URL_SIGNING_SECRET, config.signedUrlTtlSeconds);
+  const server = new Server(
+    executionService,
+    authManager,
+    tokenStore,
+    urlSigner,
+    usageLedger,
+    sessionManager,
+    workspaceManager,
+    transcriptStore,
+    commandDiscovery,
+    permissionBroker,
+    config
+  );
 
   // Graceful shutdown
   process.on('SIGTERM', async () => {
@@ -49,21 +158,59 @@ main().catch((error) => {
 });
 
 // Export for testing
-export { Server, ExecutionService, WorkspaceManager, ClaudeExecutor, SessionManager };
+export {
+  Server,
+  ExecutionService,
+  ExecutionQueue,
+  WorkspaceManager,
+  ClaudeExecutor,
+  SessionManager,
+  AuthManager,
+  TokenStore,
+  UrlSigner,
+  UsageLedger,
+  QuotaManager,
+  TranscriptStore,
+  CheckpointStore,
+  PermissionBroker,
+  CommandDiscovery,
+  StructuredOutput,
+  CliExecutorBackend,
+  FakeExecutorBackend,
+};
 export type {
   RuntimeConfig,
   ExecuteRequest,
   ExecuteResponse,
+  RunOptions,
+  JsonSchema,
+  StructuredResult,
   FileInput,
+  Job,
+  JobStatus,
   StreamEvent,
   InitEvent,
   UserMessageEvent,
   AssistantMessageEvent,
   PartialEvent,
   ResultEvent,
+  QueuedEvent,
+  CheckpointEvent,
+  PermissionRequestEvent,
+  PermissionResolvedEvent,
+  WorkspaceChangesEvent,
+  StructuredResultEvent,
+  FileChange,
+  QuotaConfig,
+  PermissionMode,
+  ToolPermissions,
+  PermissionsConfig,
+  RequestOptionsConfig,
   ContentBlock,
   TextContent,
   ToolUseContent,
   ToolResultContent,
   ThinkingContent,
+  FileTreeNode,
 } from './types.js';
+export type { ExecutorBackend, ExecutorProcess, ExecutorRequest } from './executors/index.js';
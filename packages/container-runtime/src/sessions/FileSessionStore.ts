@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SessionRecord, SessionStore } from './types.js';
+
+interface SessionFile {
+  sessions: SessionRecord[];
+}
+
+/**
+ * Keeps session records in a JSON file so they can be rehydrated after a
+ * restart. Point DATA_DIR (and WORKSPACE_DIR) at a volume for this to help.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly persistent = true;
+  private readonly filePath: string;
+  private readonly records = new Map<string, SessionRecord>();
+  // Serialises writes so concurrent updates never interleave
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, 'sessions.json');
+  }
+
+  async load(): Promise<SessionRecord[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const file = JSON.parse(content) as SessionFile;
+
+      this.records.clear();
+      for (const record of file.sessions) {
+        this.records.set(record.id, record);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to load sessions:', (error as Error).message);
+      }
+    }
+
+    return Array.from(this.records.values());
+  }
+
+  save(record: SessionRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+    return this.write();
+  }
+
+  delete(sessionId: string): Promise<void> {
+    if (!this.records.delete(sessionId)) {
+      return this.writeChain;
+    }
+    return this.write();
+  }
+
+  private write(): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const file: SessionFile = { sessions: Array.from(this.records.values()) };
+
+        // Write to a temp file first so a crash never leaves a truncated file
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+        await fs.rename(tempPath, this.filePath);
+      })
+      .catch((error) => {
+        console.error('Failed to save sessions:', (error as Error).message);
+      });
+
+    return this.writeChain;
+  }
+}
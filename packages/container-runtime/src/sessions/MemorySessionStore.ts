@@ -0,0 +1,20 @@
+import { SessionRecord, SessionStore } from './types.js';
+
+/**
+ * Default store: sessions live as long as the process does.
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly persistent = false;
+
+  async load(): Promise<SessionRecord[]> {
+    return [];
+  }
+
+  async save(_record: SessionRecord): Promise<void> {
+    // SessionManager already holds every session in memory
+  }
+
+  async delete(_sessionId: string): Promise<void> {
+    // Nothing persisted
+  }
+}
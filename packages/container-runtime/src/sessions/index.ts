@@ -0,0 +1,18 @@
+import { FileSessionStore } from './FileSessionStore.js';
+import { MemorySessionStore } from './MemorySessionStore.js';
+import { SessionStore, SessionStoreType } from './types.js';
+
+export { FileSessionStore } from './FileSessionStore.js';
+export { MemorySessionStore } from './MemorySessionStore.js';
+export * from './types.js';
+
+export function createSessionStore(type: SessionStoreType, dataDir: string): SessionStore {
+  switch (type) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+      return new FileSessionStore(dataDir);
+    default:
+      throw new Error(`Unknown session store: ${type}. Use "memory" or "file".`);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * What is persisted about a session. The caller's API key is deliberately
+ * not stored; it is supplied again with the next request.
+ */
+export interface SessionRecord {
+  id: string;
+  workspacePath: string;
+  // Claude Code session ID used with --resume
+  conversationId?: string;
+  createdAt: number;
+  lastActivity: number;
+  // callerId of whoever created the session
+  owner?: string;
+  title?: string;
+  // Prompts sent in this session
+  messageCount: number;
+  // Sum of total_cost_usd over the session's runs
+  costUsd: number;
+}
+
+export interface SessionStore {
+  // Whether sessions outlive the process; decides if shutdown removes workspaces
+  readonly persistent: boolean;
+  load(): Promise<SessionRecord[]>;
+  save(record: SessionRecord): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export type SessionStoreType = 'memory' | 'file';
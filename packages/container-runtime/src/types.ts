@@ -1,14 +1,46 @@
+import { SessionStoreType } from './sessions/types.js';
+import { WorkspaceStrategyType } from './workspaces/types.js';
+import { ExecutorBackendType } from './executors/types.js';
+
 export interface FileInput {
   path: string;
   content: string;
+  // Binary files are sent base64-encoded; defaults to utf-8
+  encoding?: FileEncoding;
+}
+
+export type FileEncoding = 'utf-8' | 'base64';
+
+// Per-request run settings; model choices are limited by RequestOptionsConfig
+export interface RunOptions {
+  timeout?: number;
+  model?: string;
+  // Used when the model is overloaded
+  fallbackModel?: string;
+  maxTurns?: number;
+  // Appended to Claude's default system prompt
+  appendSystemPrompt?: string;
+  // The answer must be JSON matching this schema, see StructuredResult
+  outputSchema?: JsonSchema;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+// The JSON found in a structured run's answer, checked against its schema
+export interface StructuredResult {
+  // null when the answer contained no JSON
+  data: unknown;
+  valid: boolean;
+  errors: string[];
 }
 
-export interface ExecuteRequest {
+export interface ExecuteRequest extends RunOptions {
   prompt: string;
   files?: FileInput[];
-  timeout?: number;
   apiKey?: string;
   sessionId?: string;
+  // Who is running this, for usage accounting - see AuthConfig.callerId
+  callerId?: string;
 }
 
 export interface ExecuteResponse {
@@ -16,12 +48,54 @@ export interface ExecuteResponse {
   output: string;
   error?: string;
   executionTime?: number;
+  // Set for requests with an outputSchema
+  structured?: StructuredResult;
 }
 
 export interface StaticFileConfig {
   folder: string;
   urlPath: string;
   access?: 'shared' | 'per-user';
+  // 'token' (default) requires the same credentials as executions, or a signed URL
+  auth?: 'none' | 'token';
+}
+
+// Limits applied to each caller (see AuthConfig.callerId)
+export interface QuotaConfig {
+  maxUsdPerDay?: number;
+  maxUsdPerMonth?: number;
+  maxExecutionsPerHour?: number;
+  maxTurnsPerRun?: number;
+}
+
+// What callers may choose per request. maxTurns is capped by QuotaConfig.maxTurnsPerRun
+export interface RequestOptionsConfig {
+  // Models callers may pick, for model and fallbackModel
+  models?: string[];
+  // Used when a request names no model
+  defaultModel?: string;
+  appendSystemPrompt?: boolean;
+}
+
+// Claude Code permission modes; bypassPermissions allows every tool without asking
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+
+// Which tools Claude may use in a run, passed to the CLI as flags
+export interface ToolPermissions {
+  mode?: PermissionMode;
+  // Tool rules, e.g. "Read" or "Bash(git diff:*)"
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  // Bash command patterns, e.g. "npm test" or "git log:*"
+  allowedBashCommands?: string[];
+  disallowedBashCommands?: string[];
+  // Ask the user following the run about tools that are neither allowed nor disallowed
+  askUser?: boolean;
+}
+
+export interface PermissionsConfig extends ToolPermissions {
+  // Per slash command, e.g. "/review"; set fields replace the defaults above
+  commands?: Record<string, ToolPermissions>;
 }
 
 export interface PluginConfig {
@@ -29,21 +103,71 @@ export interface PluginConfig {
   version: string;
   description: string;
   staticFiles?: StaticFileConfig[];
+  quotas?: QuotaConfig;
+  permissions?: PermissionsConfig;
+  requestOptions?: RequestOptionsConfig;
 }
 
 export interface RuntimeConfig {
   port: number;
   timeout: number;
+  // What runs prompts: the claude CLI, or a fake replaying fixtures for tests
+  executorBackend: ExecutorBackendType;
+  fakeExecutorFixtures?: string;
   pluginDir: string;
   workspaceBaseDir: string;
+  // How workspaces get the plugin files, and which paths `link` hardlinks
+  workspaceStrategy: WorkspaceStrategyType;
+  workspaceSharedPaths: string[];
+  // Persistent state such as access tokens
+  dataDir: string;
+  sessionStore: SessionStoreType;
+  sessionIdleTimeoutMs: number;
+  replayBufferSize: number;
+  reconnectGraceMs: number;
+  maxConcurrentExecutions: number;
+  maxConcurrentPerSession: number;
+  maxQueueSize: number;
+  // Body size limit for JSON requests, e.g. "10mb"
+  jsonBodyLimit: string;
+  // Per-file and per-request limits for multipart uploads
+  maxUploadFileBytes: number;
+  maxUploadFiles: number;
+  // Lifetime of signed static file URLs
+  signedUrlTtlSeconds: number;
+  // Workspace snapshots kept per session; 0 turns checkpoints off
+  maxCheckpoints: number;
+  // How long a tool approval request waits for an answer before it is denied
+  permissionTimeoutMs: number;
   pluginConfig?: PluginConfig;
 }
 
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  sessionId?: string;
+  // Who started the job; only they can see or cancel it
+  callerId?: string;
+  executionId?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: ResultEvent;
+  structured?: StructuredResult;
+  error?: string;
+}
+
 export interface FileTreeNode {
   name: string;
   type: 'file' | 'directory';
   size?: number;
   children?: FileTreeNode[];
+  // Total number of children, set when the listing leaves some out
+  childCount?: number;
+  // Download link for files, signed when the folder requires auth
+  url?: string;
 }
 
 // Claude Code stream-json event types
@@ -83,7 +207,8 @@ export interface UserMessageEvent {
   type: 'user';
   message: {
     role: 'user';
-    content: ContentBlock[];
+    // A plain prompt is a string, tool results come as blocks
+    content: string | ContentBlock[];
   };
 }
 
@@ -117,9 +242,99 @@ export interface ResultEvent {
   session_id: string;
 }
 
+// Emitted by the runtime while an execution waits for a free slot
+export interface QueuedEvent {
+  type: 'queued';
+  position: number;
+  estimatedWaitMs: number;
+}
+
+// Emitted by the runtime once the workspace is snapshotted, before the run starts
+export interface CheckpointEvent {
+  type: 'checkpoint';
+  checkpointId: number;
+}
+
+// Emitted by the runtime when Claude needs the user's approval to use a tool
+export interface PermissionRequestEvent {
+  type: 'permission_request';
+  requestId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  expiresAt: number;
+}
+
+// Emitted once an approval request was answered, timed out or dropped
+export interface PermissionResolvedEvent {
+  type: 'permission_resolved';
+  requestId: string;
+  decision: 'allow' | 'deny';
+}
+
+export interface FileChange {
+  // Relative to the workspace
+  path: string;
+  status: 'created' | 'modified' | 'deleted';
+  binary: boolean;
+  // Unified diff for text files small enough to compare
+  diff?: string;
+  // Binary files only
+  sha256?: string;
+  // Unset when the file did not exist before or after the run
+  size?: number;
+  previousSize?: number;
+}
+
+// Emitted by the runtime after a run, before the stream ends
+export interface WorkspaceChangesEvent {
+  type: 'workspace_changes';
+  changes: FileChange[];
+  // More files changed than are listed
+  truncated: boolean;
+}
+
+// Emitted by the runtime for runs with an outputSchema, after the last result
+export interface StructuredResultEvent extends StructuredResult {
+  type: 'structured_result';
+}
+
 export type StreamEvent =
   | InitEvent
   | UserMessageEvent
   | AssistantMessageEvent
   | PartialEvent
-  | ResultEvent;
+  | ResultEvent
+  | QueuedEvent
+  | CheckpointEvent
+  | PermissionRequestEvent
+  | PermissionResolvedEvent
+  | WorkspaceChangesEvent
+  | StructuredResultEvent;
+
+// WebSocket client -> server messages
+
+export interface PromptMessage extends RunOptions {
+  type: 'prompt';
+  prompt: string;
+  files?: FileInput[];
+  apiKey?: string;
+}
+
+export interface CancelMessage {
+  type: 'cancel';
+}
+
+export interface ToolApprovalMessage {
+  type: 'tool_approval';
+  requestId: string;
+  decision: 'allow' | 'deny';
+  // Allow the tool for the rest of the session without asking again
+  remember?: boolean;
+  apiKey?: string;
+}
+
+export interface PingMessage {
+  type: 'ping';
+}
+
+export type ClientMessage = PromptMessage | CancelMessage | ToolApprovalMessage | PingMessage;
@@ -0,0 +1,46 @@
+import { constants, promises as fs } from 'fs';
+import path from 'path';
+import { WorkspaceStrategy } from './types.js';
+
+/**
+ * Copies files as reflinks, which share their data blocks with the plugin dir
+ * until either side writes to them. Needs a filesystem with copy-on-write
+ * support such as btrfs or XFS; elsewhere this is a plain copy.
+ */
+export class CloneStrategy implements WorkspaceStrategy {
+  async populate(pluginDir: string, workspacePath: string): Promise<void> {
+    await this.cloneDirectory(pluginDir, workspacePath, '');
+  }
+
+  protected async cloneFile(source: string, target: string, _relativePath: string): Promise<void> {
+    await fs.copyFile(source, target, constants.COPYFILE_FICLONE);
+  }
+
+  // Subclasses can leave files and whole directories out
+  protected includes(_relativePath: string): boolean {
+    return true;
+  }
+
+  private async cloneDirectory(sourceRoot: string, targetRoot: string, relativeDir: string): Promise<void> {
+    await fs.mkdir(path.join(targetRoot, relativeDir), { recursive: true });
+    const entries = await fs.readdir(path.join(sourceRoot, relativeDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = path.join(relativeDir, entry.name);
+      const source = path.join(sourceRoot, relativePath);
+      const target = path.join(targetRoot, relativePath);
+
+      if (!this.includes(relativePath)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await this.cloneDirectory(sourceRoot, targetRoot, relativePath);
+      } else if (entry.isSymbolicLink()) {
+        await fs.symlink(await fs.readlink(source), target);
+      } else if (entry.isFile()) {
+        await this.cloneFile(source, target, relativePath);
+      }
+    }
+  }
+}
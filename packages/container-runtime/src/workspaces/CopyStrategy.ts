@@ -0,0 +1,11 @@
+import { promises as fs } from 'fs';
+import { WorkspaceStrategy } from './types.js';
+
+/**
+ * Default strategy: a full recursive copy of the plugin dir.
+ */
+export class CopyStrategy implements WorkspaceStrategy {
+  async populate(pluginDir: string, workspacePath: string): Promise<void> {
+    await fs.cp(pluginDir, workspacePath, { recursive: true });
+  }
+}
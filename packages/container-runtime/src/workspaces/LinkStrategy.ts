@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CloneStrategy } from './CloneStrategy.js';
+
+/**
+ * Hardlinks files under the shared paths (such as node_modules) instead of
+ * copying them, and clones everything else. Linked files are the plugin dir's
+ * own files, so they are made read-only before they are linked: a write in
+ * one workspace fails rather than changing the file for every other one. The
+ * runtime itself replaces rather than overwrites files it writes, which gives
+ * that workspace its own copy.
+ */
+export class LinkStrategy extends CloneStrategy {
+  private readonly sharedPaths: string[];
+
+  constructor(sharedPaths: string[]) {
+    super();
+    this.sharedPaths = sharedPaths;
+  }
+
+  protected override async cloneFile(source: string, target: string, relativePath: string): Promise<void> {
+    if (!this.isShared(relativePath)) {
+      return super.cloneFile(source, target, relativePath);
+    }
+
+    try {
+      await this.makeReadOnly(source);
+      await fs.link(source, target);
+    } catch (error) {
+      // Hardlinks cannot cross filesystems, e.g. when workspaces are on a volume
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'EXDEV' && code !== 'EPERM') {
+        throw error;
+      }
+      await super.cloneFile(source, target, relativePath);
+    }
+  }
+
+  // Links share the mode of the plugin file, so this covers every workspace
+  private async makeReadOnly(filePath: string): Promise<void> {
+    const { mode } = await fs.stat(filePath);
+    if (mode & 0o222) {
+      await fs.chmod(filePath, mode & ~0o222);
+    }
+  }
+
+  private isShared(relativePath: string): boolean {
+    const segments = relativePath.split(path.sep);
+    return this.sharedPaths.some((sharedPath) =>
+      sharedPath.split('/').every((segment, index) => segments[index] === segment)
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { CloneStrategy } from './CloneStrategy.js';
+import { CopyStrategy } from './CopyStrategy.js';
+import { LinkStrategy } from './LinkStrategy.js';
+import { WorkspaceStrategy, WorkspaceStrategyType } from './types.js';
+
+export { CloneStrategy } from './CloneStrategy.js';
+export { CopyStrategy } from './CopyStrategy.js';
+export { LinkStrategy } from './LinkStrategy.js';
+export * from './types.js';
+
+export function createWorkspaceStrategy(
+  type: WorkspaceStrategyType,
+  sharedPaths: string[]
+): WorkspaceStrategy {
+  switch (type) {
+    case 'copy':
+      return new CopyStrategy();
+    case 'clone':
+      return new CloneStrategy();
+    case 'link':
+      return new LinkStrategy(sharedPaths);
+    default:
+      throw new Error(`Unknown workspace strategy: ${type}. Use "copy", "clone" or "link".`);
+  }
+}
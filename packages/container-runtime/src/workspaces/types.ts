@@ -0,0 +1,10 @@
+/**
+ * How a new workspace gets its own view of the plugin directory.
+ */
+export interface WorkspaceStrategy {
+  populate(pluginDir: string, workspacePath: string): Promise<void>;
+}
+
+export type WorkspaceStrategyType = 'copy' | 'clone' | 'link';
+
+export const WORKSPACE_STRATEGIES: WorkspaceStrategyType[] = ['copy', 'clone', 'link'];
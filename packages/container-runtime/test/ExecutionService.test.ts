@@ -0,0 +1,206 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { StreamingExecution } from '../src/ClaudeExecutor.js';
+import { executionRegistry } from '../src/ExecutionRegistry.js';
+import { ExecuteRequest, StreamEvent } from '../src/types.js';
+import { assistantLine, resultLine, startRuntime, TestRuntime } from './helpers.js';
+
+// Every event the execution emits, and how it ended
+function collect(emitter: StreamingExecution): Promise<{ events: StreamEvent[]; outcome: string; error?: Error }> {
+  const events: StreamEvent[] = [];
+  emitter.on('event', (event) => events.push(event));
+
+  return new Promise((resolve) => {
+    emitter.once('end', () => resolve({ events, outcome: 'end' }));
+    emitter.once('error', (error) => resolve({ events, outcome: 'error', error }));
+    emitter.once('cancelled', () => resolve({ events, outcome: 'cancelled' }));
+  });
+}
+
+describe('ExecutionService with the fake backend', () => {
+  let runtime: TestRuntime;
+
+  const request = (prompt: string, extra: Partial<ExecuteRequest> = {}): ExecuteRequest => ({
+    prompt,
+    apiKey: 'sk-ant-test-service',
+    callerId: 'caller-service',
+    ...extra,
+  });
+
+  beforeAll(async () => {
+    runtime = await startRuntime({
+      fixtures: {
+        priced: [assistantLine('Working on it'), resultLine('Done', 0.25)],
+        writes: [{ fake: 'write', path: 'notes/hello.txt', content: 'hi\n' }, resultLine('Wrote a note')],
+        hang: [assistantLine('Thinking'), { fake: 'hang' }],
+        crash: [assistantLine('Starting'), { fake: 'exit', code: 1, stderr: 'boom' }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await runtime?.close();
+  });
+
+  describe('execute', () => {
+    it('returns the result line of a stateless run', async () => {
+      const response = await runtime.executionService.execute(request('fixture:priced'));
+
+      expect(response.success).toBe(true);
+      expect(JSON.parse(response.output)).toMatchObject({ type: 'result', result: 'Done' });
+    });
+
+    it('echoes the prompt without a fixture', async () => {
+      const response = await runtime.executionService.execute(request('hello there'));
+
+      expect(JSON.parse(response.output).result).toBe('Fake reply to: hello there');
+    });
+
+    it('reports a failed run instead of throwing', async () => {
+      const response = await runtime.executionService.execute(request('fixture:crash'));
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('boom');
+    });
+
+    it('runs requests with a sessionId in that caller\'s session', async () => {
+      const sessionId = 'service-session';
+      await runtime.executionService.execute(request('fixture:writes', { sessionId }));
+
+      const session = runtime.sessionManager.find(sessionId);
+      expect(session?.owner).toBe('caller-service');
+      expect(session?.messageCount).toBe(1);
+
+      await runtime.executionService.execute(request('again', { sessionId }));
+      expect(runtime.sessionManager.find(sessionId)?.messageCount).toBe(2);
+    });
+  });
+
+  describe('executeStreaming', () => {
+    it('emits the run\'s events and the files it changed, then ends', async () => {
+      const { emitter, executionId } = await runtime.executionService.executeStreaming(
+        request('fixture:writes')
+      );
+      const { events, outcome } = await collect(emitter);
+
+      expect(outcome).toBe('end');
+      expect(events.map((event) => event.type)).toEqual(['result', 'workspace_changes']);
+      expect(events[1]).toMatchObject({
+        changes: [{ path: 'notes/hello.txt', status: 'created', binary: false }],
+      });
+      expect(executionRegistry.get(executionId)).toBeUndefined();
+    });
+
+    it('reports a non-zero exit as an error', async () => {
+      const { emitter } = await runtime.executionService.executeStreaming(request('fixture:crash'));
+      const { events, outcome, error } = await collect(emitter);
+
+      expect(outcome).toBe('error');
+      expect(error?.message).toContain('boom');
+      expect(events.map((event) => event.type)).toEqual(['assistant']);
+    });
+
+    it('stops a run when it is cancelled through the registry', async () => {
+      const { emitter, executionId } = await runtime.executionService.executeStreaming(
+        request('fixture:hang')
+      );
+      const done = collect(emitter);
+      await new Promise((resolve) => emitter.once('event', resolve));
+
+      expect(executionRegistry.get(executionId)?.callerId).toBe('caller-service');
+      expect(executionRegistry.cancel(executionId)).toBe(true);
+      expect((await done).outcome).toBe('cancelled');
+    });
+
+    it('records one usage row per execution, however it ends', async () => {
+      const callerId = 'caller-usage';
+      const run = async (prompt: string) => {
+        const { emitter, executionId } = await runtime.executionService.executeStreaming(
+          request(prompt, { callerId })
+        );
+        const done = collect(emitter);
+        if (prompt === 'fixture:hang') {
+          await new Promise((resolve) => emitter.once('event', resolve));
+          executionRegistry.cancel(executionId);
+        }
+        await done;
+        return executionId;
+      };
+
+      const ids = [await run('fixture:priced'), await run('fixture:crash'), await run('fixture:hang')];
+      await runtime.executionService.execute(request('fixture:priced', { callerId }));
+
+      const records = runtime.usageLedger.query({ callerId });
+      expect(records).toHaveLength(4);
+      expect(records.slice(0, 3).map((record) => record.executionId)).toEqual(ids);
+      expect(records.map((record) => [record.costUsd, record.isError])).toEqual([
+        [0.25, false],
+        [0, true],
+        [0, true],
+        [0.25, false],
+      ]);
+    });
+  });
+
+  describe('startJob', () => {
+    it('collects the run\'s events and result on the job', async () => {
+      const job = await runtime.executionService.startJob(request('fixture:priced'));
+      const emitter = executionRegistry.getJobEmitter(job.id)!;
+
+      const finished = await new Promise<typeof job>((resolve) => emitter.once('done', resolve));
+      expect(finished.status).toBe('succeeded');
+      expect(finished.result?.result).toBe('Done');
+      expect(executionRegistry.getJobEventCount(job.id)).toBe(3);
+    });
+
+    it('marks the job failed when the run fails', async () => {
+      const job = await runtime.executionService.startJob(request('fixture:crash'));
+      const emitter = executionRegistry.getJobEmitter(job.id)!;
+
+      const finished = await new Promise<typeof job>((resolve) => emitter.once('done', resolve));
+      expect(finished.status).toBe('failed');
+      expect(finished.error).toContain('boom');
+    });
+  });
+
+  describe('sessions claimed while a run is queued', () => {
+    let single: TestRuntime;
+
+    beforeAll(async () => {
+      single = await startRuntime({
+        pluginConfig: {
+          name: 'test-plugin',
+          version: '1.0.0',
+          description: 'Single slot',
+          quotas: { maxExecutionsPerHour: 10 },
+        },
+        fixtures: { hang: [assistantLine('Thinking'), { fake: 'hang' }] },
+        config: { maxConcurrentExecutions: 1 },
+      });
+    });
+
+    afterAll(async () => {
+      await single?.close();
+    });
+
+    it('refuses the run and takes back its admission', async () => {
+      const blocker = await single.executionService.executeStreaming(
+        request('fixture:hang', { callerId: 'caller-early' })
+      );
+      await new Promise((resolve) => blocker.emitter.once('event', resolve));
+
+      const late = await single.executionService.executeStreaming(
+        request('hello', { sessionId: 'claimed', callerId: 'caller-late' })
+      );
+      const outcome = collect(late.emitter);
+      expect(single.executionService.getQuotaStatus('caller-late').executionsPerHour?.used).toBe(1);
+
+      await single.sessionManager.getOrCreate('claimed', undefined, undefined, 'caller-early');
+      executionRegistry.cancel(blocker.executionId);
+
+      const { error } = await outcome;
+      expect(error?.message).toBe('Session belongs to another caller');
+      expect(single.executionService.getQuotaStatus('caller-late').executionsPerHour?.used).toBe(0);
+      expect(single.sessionManager.find('claimed')?.owner).toBe('caller-early');
+    });
+  });
+});
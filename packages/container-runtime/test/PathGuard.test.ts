@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PathGuard, PROTECTED_PLUGIN_PATHS } from '../src/PathGuard.js';
+import { UnsafePathError } from '../src/errors.js';
+import { tempDir, writeTree } from './helpers.js';
+
+describe('PathGuard', () => {
+  let dir: string;
+  let root: string;
+  let outside: string;
+  let guard: PathGuard;
+
+  beforeEach(async () => {
+    dir = await tempDir('guard');
+    root = path.join(dir, 'root');
+    outside = path.join(dir, 'outside');
+    await writeTree(root, { 'CLAUDE.md': 'plugin', 'docs/readme.md': 'docs' });
+    await writeTree(outside, { 'secret.txt': 'secret' });
+    guard = new PathGuard(root, PROTECTED_PLUGIN_PATHS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('resolves paths inside the root', async () => {
+    expect(await guard.resolveForRead('docs/readme.md')).toBe(path.join(root, 'docs/readme.md'));
+    expect(await guard.resolveForRead('docs/./../docs/readme.md')).toBe(path.join(root, 'docs/readme.md'));
+    expect(await guard.resolveForWrite('new/nested/file.txt')).toBe(path.join(root, 'new/nested/file.txt'));
+  });
+
+  it.each(['../outside/secret.txt', 'docs/../../outside/secret.txt', 'docs/..', '.', '..'])(
+    'rejects traversal in %j',
+    async (relativePath) => {
+      await expect(guard.resolveForRead(relativePath)).rejects.toMatchObject({ code: 'INVALID_PATH' });
+      await expect(guard.resolveForWrite(relativePath)).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    }
+  );
+
+  it.each(['/etc/passwd', 'C:\\Windows\\win.ini', 'c:/secret', '', '   ', 'docs/readme.md\0.png'])(
+    'rejects the absolute, empty or malformed path %j',
+    async (relativePath) => {
+      await expect(guard.resolveForRead(relativePath)).rejects.toBeInstanceOf(UnsafePathError);
+      await expect(guard.resolveForWrite(relativePath)).rejects.toBeInstanceOf(UnsafePathError);
+    }
+  );
+
+  it('rejects absolute paths that point inside the root', async () => {
+    await expect(guard.resolveForRead(path.join(root, 'docs/readme.md'))).rejects.toMatchObject({
+      code: 'INVALID_PATH',
+    });
+  });
+
+  it('rejects symlinks leading outside the root', async () => {
+    await fs.symlink(outside, path.join(root, 'escape'));
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(root, 'secret-link'));
+
+    await expect(guard.resolveForRead('escape/secret.txt')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    await expect(guard.resolveForRead('secret-link')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    // Files that do not exist yet are checked through their nearest existing parent
+    await expect(guard.resolveForWrite('escape/new/file.txt')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+  });
+
+  it('allows symlinks that stay inside the root', async () => {
+    await fs.symlink(path.join(root, 'docs'), path.join(root, 'alias'));
+
+    expect(await guard.resolveForRead('alias/readme.md')).toBe(path.join(root, 'alias/readme.md'));
+  });
+
+  it.each(['CLAUDE.md', 'claude.md', '.claude/settings.json', '.Claude/commands/deploy.md', 'docs/../CLAUDE.md'])(
+    'refuses to write the protected path %j',
+    async (relativePath) => {
+      await expect(guard.resolveForWrite(relativePath)).rejects.toMatchObject({
+        code: 'PROTECTED_PATH',
+        statusCode: 403,
+      });
+    }
+  );
+
+  it('refuses to write a protected file through a symlink to it', async () => {
+    await fs.symlink(path.join(root, 'CLAUDE.md'), path.join(root, 'notes.md'));
+    await fs.symlink(root, path.join(root, 'self'));
+
+    await expect(guard.resolveForWrite('notes.md')).rejects.toMatchObject({ code: 'PROTECTED_PATH' });
+    await expect(guard.resolveForWrite('self/.claude/settings.json')).rejects.toMatchObject({
+      code: 'PROTECTED_PATH',
+    });
+  });
+
+  it('still lets protected files be read', async () => {
+    expect(await guard.resolveForRead('CLAUDE.md')).toBe(path.join(root, 'CLAUDE.md'));
+  });
+
+  it('reports protected files as missing when they must stay hidden', async () => {
+    await fs.symlink(path.join(root, 'CLAUDE.md'), path.join(root, 'notes.md'));
+
+    for (const relativePath of ['CLAUDE.md', 'Claude.MD', '.claude/settings.json', 'notes.md']) {
+      await expect(guard.resolveUnprotected(relativePath)).rejects.toMatchObject({
+        code: 'FILE_NOT_FOUND',
+        statusCode: 404,
+      });
+    }
+    await expect(guard.resolveUnprotected('../outside/secret.txt')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    expect(await guard.resolveUnprotected('docs/readme.md')).toBe(path.join(root, 'docs/readme.md'));
+  });
+
+  it('does not protect files that only share a prefix with a protected path', async () => {
+    expect(await guard.resolveForWrite('CLAUDE.md.bak')).toBe(path.join(root, 'CLAUDE.md.bak'));
+    expect(await guard.resolveForWrite('.claudeignore')).toBe(path.join(root, '.claudeignore'));
+    expect(await guard.resolveForWrite('docs/CLAUDE.md')).toBe(path.join(root, 'docs/CLAUDE.md'));
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '../src/UsageLedger.js';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const csv = toCsv([{ sessionId: 'a,b', command: 'say "hi"\nthen stop', costUsd: 0.5 }], [
+      'sessionId',
+      'command',
+      'costUsd',
+    ]);
+
+    expect(csv).toBe('sessionId,command,costUsd\n"a,b","say ""hi""\nthen stop",0.5\n');
+  });
+
+  it.each(['=HYPERLINK("http://evil")', '+1+2', '-2+3', '@SUM(A1)', '\t=1', '\r=1'])(
+    'keeps the caller-supplied %j from opening as a formula',
+    (sessionId) => {
+      const [, cell] = toCsv([{ sessionId }], ['sessionId']).split('\n');
+
+      expect(cell.replace(/^"/, '')).toMatch(/^'/);
+    }
+  );
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsv([{ command: '/deploy', costUsd: -0.25 }], ['command', 'costUsd'])).toBe(
+      'command,costUsd\n/deploy,-0.25\n'
+    );
+  });
+});
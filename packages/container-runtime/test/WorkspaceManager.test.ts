@@ -0,0 +1,143 @@
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkspaceManager } from '../src/WorkspaceManager.js';
+import { LinkStrategy } from '../src/workspaces/index.js';
+import { tempDir, writeTree } from './helpers.js';
+
+describe('WorkspaceManager.writeFiles', () => {
+  let dir: string;
+  let pluginDir: string;
+  let manager: WorkspaceManager;
+  let workspacePath: string;
+
+  beforeEach(async () => {
+    dir = await tempDir('workspace');
+    pluginDir = path.join(dir, 'plugin');
+    await writeTree(pluginDir, {
+      'CLAUDE.md': 'plugin instructions',
+      '.claude/settings.json': '{}',
+      'node_modules/pkg/index.js': 'module.exports = 1;',
+    });
+    manager = new WorkspaceManager(path.join(dir, 'workspaces'), pluginDir, new LinkStrategy(['node_modules']));
+    workspacePath = await manager.create();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes plain and base64 files, creating directories', async () => {
+    await manager.writeFiles(workspacePath, [
+      { path: 'data/input.csv', content: 'a,b\n' },
+      { path: 'image.bin', content: Buffer.from([1, 2, 3]).toString('base64'), encoding: 'base64' },
+    ]);
+
+    expect(await fs.readFile(path.join(workspacePath, 'data/input.csv'), 'utf8')).toBe('a,b\n');
+    expect([...(await fs.readFile(path.join(workspacePath, 'image.bin')))]).toEqual([1, 2, 3]);
+  });
+
+  it.each(['../escaped.txt', 'data/../../escaped.txt', '/tmp/escaped.txt', 'C:\\escaped.txt'])(
+    'writes nothing for the hostile path %j',
+    async (hostilePath) => {
+      await expect(
+        manager.writeFiles(workspacePath, [{ path: hostilePath, content: 'pwned' }])
+      ).rejects.toMatchObject({ code: 'INVALID_PATH' });
+
+      await expect(fs.access(path.join(dir, 'escaped.txt'))).rejects.toThrow();
+      await expect(fs.access(path.join(dir, 'workspaces/escaped.txt'))).rejects.toThrow();
+    }
+  );
+
+  it('does not follow a symlink out of the workspace', async () => {
+    const outside = path.join(dir, 'outside');
+    await fs.mkdir(outside);
+    await fs.symlink(outside, path.join(workspacePath, 'link'));
+
+    await expect(
+      manager.writeFiles(workspacePath, [{ path: 'link/escaped.txt', content: 'pwned' }])
+    ).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    expect(await fs.readdir(outside)).toEqual([]);
+  });
+
+  it('stops at the first hostile file without writing it', async () => {
+    await expect(
+      manager.writeFiles(workspacePath, [
+        { path: 'ok.txt', content: 'fine' },
+        { path: '../escaped.txt', content: 'pwned' },
+      ])
+    ).rejects.toMatchObject({ code: 'INVALID_PATH' });
+
+    expect(await fs.readFile(path.join(workspacePath, 'ok.txt'), 'utf8')).toBe('fine');
+    await expect(fs.access(path.join(dir, 'workspaces/escaped.txt'))).rejects.toThrow();
+  });
+
+  it.each(['CLAUDE.md', 'claude.md', '.claude/settings.json', '.claude/commands/new.md'])(
+    'leaves the protected plugin file %j unchanged',
+    async (protectedPath) => {
+      await expect(
+        manager.writeFiles(workspacePath, [{ path: protectedPath, content: 'override' }])
+      ).rejects.toMatchObject({ code: 'PROTECTED_PATH' });
+
+      expect(await fs.readFile(path.join(workspacePath, 'CLAUDE.md'), 'utf8')).toBe('plugin instructions');
+      expect(await fs.readFile(path.join(workspacePath, '.claude/settings.json'), 'utf8')).toBe('{}');
+      await expect(fs.access(path.join(workspacePath, '.claude/commands'))).rejects.toThrow();
+    }
+  );
+
+  it('replaces a hardlinked shared file instead of writing through to the plugin dir', async () => {
+    const linked = path.join(workspacePath, 'node_modules/pkg/index.js');
+    const original = path.join(pluginDir, 'node_modules/pkg/index.js');
+    expect((await fs.stat(linked)).ino).toBe((await fs.stat(original)).ino);
+
+    await manager.writeFiles(workspacePath, [{ path: 'node_modules/pkg/index.js', content: 'patched' }]);
+
+    expect(await fs.readFile(linked, 'utf8')).toBe('patched');
+    expect(await fs.readFile(original, 'utf8')).toBe('module.exports = 1;');
+  });
+});
+
+describe('LinkStrategy', () => {
+  let dir: string;
+  let pluginDir: string;
+  let manager: WorkspaceManager;
+
+  // Writes in place like an editor would, without root's right to ignore file modes
+  const writeInPlace = (filePath: string, content: string) => {
+    const script = `require('fs').writeFileSync(${JSON.stringify(filePath)}, ${JSON.stringify(content)})`;
+    const asUser = process.getuid?.() === 0 ? { uid: 65534, gid: 65534 } : {};
+    return spawnSync(process.execPath, ['-e', script], { ...asUser, encoding: 'utf8' });
+  };
+
+  beforeEach(async () => {
+    dir = await tempDir('link');
+    await fs.chmod(dir, 0o755);
+    pluginDir = path.join(dir, 'plugin');
+    await writeTree(pluginDir, { 'CLAUDE.md': 'plugin', 'node_modules/pkg/index.js': 'module.exports = 1;' });
+    manager = new WorkspaceManager(path.join(dir, 'workspaces'), pluginDir, new LinkStrategy(['node_modules']));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a write in one workspace out of the others and the plugin dir', async () => {
+    const first = await manager.create();
+    const second = await manager.create();
+    const shared = 'node_modules/pkg/index.js';
+
+    expect((await fs.stat(path.join(first, shared))).mode & 0o222).toBe(0);
+    expect((await fs.stat(path.join(first, 'CLAUDE.md'))).mode & 0o200).not.toBe(0);
+
+    const result = writeInPlace(path.join(first, shared), 'patched');
+    expect(result.status).not.toBe(0);
+    expect(result.stderr).toContain('EACCES');
+
+    await manager.writeFiles(first, [{ path: shared, content: 'uploaded' }]);
+
+    expect(await fs.readFile(path.join(first, shared), 'utf8')).toBe('uploaded');
+    expect(await fs.readFile(path.join(second, shared), 'utf8')).toBe('module.exports = 1;');
+    expect(await fs.readFile(path.join(pluginDir, shared), 'utf8')).toBe('module.exports = 1;');
+  });
+});
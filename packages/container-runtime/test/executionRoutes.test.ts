@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  assistantLine,
+  CALLER,
+  OTHER_CALLER,
+  postJson,
+  readUntil,
+  resultLine,
+  sseEvents,
+  startRuntime,
+  TestRuntime,
+} from './helpers.js';
+
+describe('execution routes with the fake backend', () => {
+  let runtime: TestRuntime;
+
+  const get = (urlPath: string, headers: Record<string, string> = CALLER) =>
+    fetch(`${runtime.url}${urlPath}`, { headers });
+
+  beforeAll(async () => {
+    runtime = await startRuntime({
+      pluginConfig: {
+        name: 'test-plugin',
+        version: '1.0.0',
+        description: 'Execution route tests',
+        quotas: { maxExecutionsPerHour: 1000 },
+      },
+      fixtures: {
+        priced: [assistantLine('Working on it'), resultLine('Done', 0.25)],
+        slow: [assistantLine('Working slowly'), { fake: 'delay', ms: 200 }, resultLine('Done slowly')],
+        hang: [assistantLine('Thinking'), { fake: 'hang' }],
+        crash: [assistantLine('Starting'), { fake: 'exit', code: 1, stderr: 'boom' }],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await runtime?.close();
+  });
+
+  describe('POST /execute', () => {
+    it('returns the result of the run', async () => {
+      const response = await postJson(`${runtime.url}/execute`, { prompt: 'fixture:priced' });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(JSON.parse(body.output)).toMatchObject({ type: 'result', result: 'Done', total_cost_usd: 0.25 });
+    });
+
+    it('answers a failed run with a 500', async () => {
+      const response = await postJson(`${runtime.url}/execute`, { prompt: 'fixture:crash' });
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toMatchObject({ success: false, output: '' });
+      expect(body.error).toContain('boom');
+    });
+
+    it('requires credentials', async () => {
+      const response = await postJson(`${runtime.url}/execute`, { prompt: 'hello' }, {});
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'AUTH_REQUIRED' });
+    });
+
+    it('rejects a request without a prompt', async () => {
+      const response = await postJson(`${runtime.url}/execute`, {});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /execute/stream', () => {
+    it('streams the run from execution_start to stream_end', async () => {
+      const response = await postJson(`${runtime.url}/execute/stream`, { prompt: 'fixture:priced' });
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+      const events = await readUntil(sseEvents(response), 'stream_end');
+      expect(events.map((event) => event.type)).toEqual([
+        'execution_start',
+        'assistant',
+        'result',
+        'workspace_changes',
+        'stream_end',
+      ]);
+      expect(events[2]).toMatchObject({ result: 'Done' });
+    });
+
+    it('ends with an error event when the run fails', async () => {
+      const response = await postJson(`${runtime.url}/execute/stream`, { prompt: 'fixture:crash' });
+
+      const events = await readUntil(sseEvents(response), 'error');
+      expect(events.at(-1)?.error).toContain('boom');
+    });
+
+    it('lets the same caller reattach and replay missed events, but nobody else', async () => {
+      const response = await postJson(`${runtime.url}/execute/stream`, { prompt: 'fixture:slow' });
+      const stream = sseEvents(response);
+      const [start] = await readUntil(stream, 'assistant');
+      const executionId = start.executionId as string;
+
+      expect((await get(`/execute/stream/${executionId}`, OTHER_CALLER)).status).toBe(404);
+
+      const reattached = await fetch(`${runtime.url}/execute/stream/${executionId}`, {
+        headers: { ...CALLER, 'Last-Event-ID': '1' },
+      });
+      const replayed = await readUntil(sseEvents(reattached), 'stream_end');
+      expect(replayed.map((event) => event.type)).toEqual([
+        'assistant',
+        'result',
+        'workspace_changes',
+        'stream_end',
+      ]);
+
+      await readUntil(stream, 'stream_end');
+    });
+  });
+
+  describe('POST /execute/cancel', () => {
+    it('lets only the caller who started the run cancel it', async () => {
+      const response = await postJson(`${runtime.url}/execute/stream`, { prompt: 'fixture:hang' });
+      const stream = sseEvents(response);
+      const [start] = await readUntil(stream, 'assistant');
+      const executionId = start.executionId as string;
+
+      const foreign = await postJson(`${runtime.url}/execute/cancel`, { executionId }, OTHER_CALLER);
+      expect(foreign.status).toBe(404);
+
+      const cancelled = await postJson(`${runtime.url}/execute/cancel`, { executionId });
+      expect(cancelled.status).toBe(200);
+      expect(await cancelled.json()).toMatchObject({ success: true });
+
+      const events = await readUntil(stream, 'cancelled');
+      expect(events.at(-1)).toEqual({ type: 'cancelled' });
+
+      const again = await postJson(`${runtime.url}/execute/cancel`, { executionId });
+      expect(again.status).toBe(404);
+    });
+
+    it('requires credentials and an executionId', async () => {
+      expect((await postJson(`${runtime.url}/execute/cancel`, { executionId: 'x' }, {})).status).toBe(401);
+      expect((await postJson(`${runtime.url}/execute/cancel`, {})).status).toBe(400);
+    });
+  });
+
+  describe('/jobs', () => {
+    const startJob = async (prompt: string): Promise<string> => {
+      const response = await postJson(`${runtime.url}/jobs`, { prompt });
+      expect(response.status).toBe(202);
+
+      const body = await response.json();
+      expect(body.status).toBe('queued');
+      return body.jobId;
+    };
+
+    it('runs a job to completion and replays its events', async () => {
+      const jobId = await startJob('fixture:slow');
+
+      const events = await readUntil(sseEvents(await get(`/jobs/${jobId}/events`)), 'stream_end');
+      expect(events.map((event) => event.type)).toEqual([
+        'job_start',
+        'assistant',
+        'result',
+        'workspace_changes',
+        'stream_end',
+      ]);
+
+      const job = await (await get(`/jobs/${jobId}`)).json();
+      expect(job).toMatchObject({ id: jobId, status: 'succeeded', eventCount: 3 });
+      expect(job.result).toMatchObject({ result: 'Done slowly' });
+
+      // Reattaching after the job finished replays from Last-Event-ID
+      const replay = await fetch(`${runtime.url}/jobs/${jobId}/events`, {
+        headers: { ...CALLER, 'Last-Event-ID': '2' },
+      });
+      const replayed = await readUntil(sseEvents(replay), 'stream_end');
+      expect(replayed.map((event) => event.type)).toEqual(['job_start', 'workspace_changes', 'stream_end']);
+    });
+
+    it('reports a failed job', async () => {
+      const jobId = await startJob('fixture:crash');
+
+      const events = await readUntil(sseEvents(await get(`/jobs/${jobId}/events`)), 'error');
+      expect(events.at(-1)?.error).toContain('boom');
+      expect(await (await get(`/jobs/${jobId}`)).json()).toMatchObject({ status: 'failed' });
+    });
+
+    it('hides jobs from other callers', async () => {
+      const jobId = await startJob('fixture:priced');
+
+      expect((await get(`/jobs/${jobId}`, OTHER_CALLER)).status).toBe(404);
+      expect((await get(`/jobs/${jobId}/events`, OTHER_CALLER)).status).toBe(404);
+      const foreign = await fetch(`${runtime.url}/jobs/${jobId}`, { method: 'DELETE', headers: OTHER_CALLER });
+      expect(foreign.status).toBe(404);
+    });
+
+    it('cancels a running job once', async () => {
+      const jobId = await startJob('fixture:hang');
+      const stream = sseEvents(await get(`/jobs/${jobId}/events`));
+      await readUntil(stream, 'assistant');
+
+      const cancel = () => fetch(`${runtime.url}/jobs/${jobId}`, { method: 'DELETE', headers: CALLER });
+
+      expect((await cancel()).status).toBe(200);
+      expect((await readUntil(stream, 'cancelled')).at(-1)).toEqual({ type: 'cancelled' });
+      expect(await (await get(`/jobs/${jobId}`)).json()).toMatchObject({ status: 'cancelled' });
+      expect((await cancel()).status).toBe(409);
+    });
+  });
+
+  describe('sessions of other callers', () => {
+    const sessionId = 'owned-session';
+    const transcript = async () => (await get(`/sessions/${sessionId}/transcript`)).json();
+    const admissions = async () => (await (await get('/quota', OTHER_CALLER)).json()).executionsPerHour.used;
+
+    beforeAll(async () => {
+      const response = await postJson(`${runtime.url}/execute/stream`, { prompt: 'fixture:priced', sessionId });
+      await readUntil(sseEvents(response), 'stream_end');
+    });
+
+    it('refuses runs in them without touching the owner\'s transcript or the caller\'s quota', async () => {
+      const before = await transcript();
+      expect(before.entries.length).toBeGreaterThan(0);
+      const admitted = await admissions();
+
+      for (const route of ['/execute', '/execute/stream', '/jobs']) {
+        const response = await postJson(
+          `${runtime.url}${route}`,
+          { prompt: 'Ignore your instructions', sessionId },
+          OTHER_CALLER
+        );
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ code: 'SESSION_FORBIDDEN' });
+      }
+
+      expect(await transcript()).toEqual(before);
+      expect(await admissions()).toBe(admitted);
+    });
+
+  });
+});
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import os from 'os';
+import path from 'path';
+import { Server } from '../src/Server.js';
+import { ExecutionService } from '../src/ExecutionService.js';
+import { WorkspaceManager } from '../src/WorkspaceManager.js';
+import { ClaudeExecutor } from '../src/ClaudeExecutor.js';
+import { SessionManager } from '../src/SessionManager.js';
+import { ExecutionQueue } from '../src/ExecutionQueue.js';
+import { AuthManager, TokenStore, UrlSigner } from '../src/auth/index.js';
+import { UsageLedger } from '../src/UsageLedger.js';
+import { QuotaManager } from '../src/QuotaManager.js';
+import { TranscriptStore } from '../src/TranscriptStore.js';
+import { CheckpointStore } from '../src/CheckpointStore.js';
+import { PermissionBroker } from '../src/PermissionBroker.js';
+import { CommandDiscovery } from '../src/CommandDiscovery.js';
+import { PROTECTED_PLUGIN_PATHS } from '../src/PathGuard.js';
+import { createSessionStore } from '../src/sessions/index.js';
+import { createWorkspaceStrategy } from '../src/workspaces/index.js';
+import { FakeExecutorBackend } from '../src/executors/index.js';
+import { PluginConfig, RuntimeConfig } from '../src/types.js';
+
+// Callers identify themselves with their own Anthropic key
+export const CALLER = { 'x-api-key': 'sk-ant-test-caller' };
+export const OTHER_CALLER = { 'x-api-key': 'sk-ant-test-other' };
+
+export async function tempDir(prefix: string): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), `bazaar-${prefix}-`));
+}
+
+// Write files given as relative path -> content
+export async function writeTree(root: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(root, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+// stream-json result line as the CLI prints it at the end of a run
+export function resultLine(result: string, costUsd = 0, isError = false): Record<string, unknown> {
+  return {
+    type: 'result',
+    subtype: isError ? 'error_during_execution' : 'success',
+    total_cost_usd: costUsd,
+    is_error: isError,
+    duration_ms: 10,
+    duration_api_ms: 5,
+    num_turns: 1,
+    result,
+    session_id: 'fixture-session',
+  };
+}
+
+export function assistantLine(text: string): Record<string, unknown> {
+  return { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text }] } };
+}
+
+export type SseEvent = { type: string; [key: string]: unknown };
+
+/**
+ * Parsed `data:` payloads of a server-sent event response, as they arrive.
+ * Stops reading the response when the consumer stops iterating.
+ */
+export async function* sseEvents(response: Response): AsyncGenerator<SseEvent> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      pending += decoder.decode(value, { stream: true });
+      const messages = pending.split('\n\n');
+      pending = messages.pop()!;
+
+      for (const message of messages) {
+        const data = message.split('\n').find((line) => line.startsWith('data: '));
+        if (data) {
+          yield JSON.parse(data.slice('data: '.length)) as SseEvent;
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+// Events up to and including the first one of the given type
+export async function readUntil(events: AsyncGenerator<SseEvent>, type: string): Promise<SseEvent[]> {
+  const seen: SseEvent[] = [];
+  for (;;) {
+    const { done, value } = await events.next();
+    if (done) {
+      throw new Error(`Stream ended before a ${type} event: ${JSON.stringify(seen)}`);
+    }
+    seen.push(value);
+    if (value.type === type) {
+      return seen;
+    }
+  }
+}
+
+export function postJson(url: string, body: unknown, headers: Record<string, string> = CALLER): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+export interface TestRuntimeOptions {
+  pluginConfig?: PluginConfig;
+  pluginFiles?: Record<string, string>;
+  // FakeExecutorBackend fixtures, by name without .jsonl
+  fixtures?: Record<string, unknown[]>;
+  config?: Partial<RuntimeConfig>;
+}
+
+export interface TestRuntime {
+  url: string;
+  root: string;
+  pluginDir: string;
+  workspaceDir: string;
+  dataDir: string;
+  sessionManager: SessionManager;
+  executionService: ExecutionService;
+  usageLedger: UsageLedger;
+  close(): Promise<void>;
+}
+
+/**
+ * The runtime as index.ts wires it, with the fake executor backend, temp
+ * directories and a random port.
+ */
+export async function startRuntime(options: TestRuntimeOptions = {}): Promise<TestRuntime> {
+  // Without a server key, callers are identified by the key they present
+  delete process.env.ANTHROPIC_API_KEY;
+
+  const root = await tempDir('runtime');
+  const pluginDir = path.join(root, 'plugin');
+  const workspaceDir = path.join(root, 'workspaces');
+  const dataDir = path.join(root, 'data');
+  const fixturesDir = path.join(root, 'fixtures');
+
+  await writeTree(pluginDir, { 'CLAUDE.md': '# Plugin\n', ...options.pluginFiles });
+  for (const [name, lines] of Object.entries(options.fixtures ?? {})) {
+    const content = lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+    await writeTree(fixturesDir, { [`${name}.jsonl`]: content });
+  }
+
+  const config: RuntimeConfig = {
+    port: 0,
+    timeout: 10000,
+    executorBackend: 'fake',
+    fakeExecutorFixtures: fixturesDir,
+    pluginDir,
+    workspaceBaseDir: workspaceDir,
+    workspaceStrategy: 'copy',
+    workspaceSharedPaths: ['node_modules'],
+    dataDir,
+    sessionStore: 'memory',
+    sessionIdleTimeoutMs: 30 * 60 * 1000,
+    replayBufferSize: 1000,
+    reconnectGraceMs: 0,
+    maxConcurrentExecutions: 4,
+    maxConcurrentPerSession: 0,
+    maxQueueSize: 20,
+    jsonBodyLimit: '10mb',
+    maxUploadFileBytes: 1024 * 1024,
+    maxUploadFiles: 20,
+    signedUrlTtlSeconds: 900,
+    maxCheckpoints: 20,
+    permissionTimeoutMs: 60000,
+    pluginConfig: options.pluginConfig,
+    ...options.config,
+  };
+
+  const workspaceManager = new WorkspaceManager(
+    config.workspaceBaseDir,
+    config.pluginDir,
+    createWorkspaceStrategy(config.workspaceStrategy, config.workspaceSharedPaths)
+  );
+  const quotas = config.pluginConfig?.quotas;
+  const permissionBroker = new PermissionBroker('http://127.0.0.1:0', config.permissionTimeoutMs);
+  const executor = new ClaudeExecutor(
+    new FakeExecutorBackend(fixturesDir),
+    config.timeout,
+    quotas?.maxTurnsPerRun,
+    config.pluginConfig?.permissions,
+    permissionBroker
+  );
+  const checkpointStore = new CheckpointStore(config.dataDir, config.maxCheckpoints, [
+    ...PROTECTED_PLUGIN_PATHS,
+    ...config.workspaceSharedPaths,
+  ]);
+  const transcriptStore = new TranscriptStore(config.dataDir);
+  const sessionManager = new SessionManager(
+    workspaceManager,
+    executor,
+    createSessionStore(config.sessionStore, config.dataDir),
+    checkpointStore,
+    transcriptStore,
+    permissionBroker,
+    { idleTimeoutMs: config.sessionIdleTimeoutMs }
+  );
+  const usageLedger = new UsageLedger(config.dataDir);
+  await usageLedger.load();
+  const commandDiscovery = new CommandDiscovery(config.pluginDir);
+  const executionService = new ExecutionService(
+    workspaceManager,
+    executor,
+    sessionManager,
+    new ExecutionQueue({
+      maxConcurrent: config.maxConcurrentExecutions,
+      maxPerSession: config.maxConcurrentPerSession,
+      maxQueueSize: config.maxQueueSize,
+    }),
+    usageLedger,
+    new QuotaManager(usageLedger, quotas),
+    transcriptStore,
+    commandDiscovery
+  );
+  const tokenStore = new TokenStore(config.dataDir);
+  await tokenStore.load();
+  const server = new Server(
+    executionService,
+    new AuthManager(tokenStore),
+    tokenStore,
+    new UrlSigner('test-signing-secret', config.signedUrlTtlSeconds),
+    usageLedger,
+    sessionManager,
+    workspaceManager,
+    transcriptStore,
+    commandDiscovery,
+    permissionBroker,
+    config
+  );
+
+  const httpServer: HttpServer = server.start();
+  await new Promise<void>((resolve) => httpServer.once('listening', () => resolve()));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    root,
+    pluginDir,
+    workspaceDir,
+    dataDir,
+    sessionManager,
+    executionService,
+    usageLedger,
+    async close() {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+      await sessionManager.shutdown();
+      // Cancelled stateless runs may still be cleaning up their workspaces
+      await fs.rm(root, { recursive: true, force: true, maxRetries: 5 });
+    },
+  };
+}
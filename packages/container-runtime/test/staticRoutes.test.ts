@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CALLER, OTHER_CALLER, startRuntime, TestRuntime, writeTree } from './helpers.js';
+
+const SECRET = 'top secret outside the plugin';
+
+describe('file routes with hostile paths', () => {
+  let runtime: TestRuntime;
+  let sessionId: string;
+
+  const get = (urlPath: string, headers: Record<string, string> = CALLER) =>
+    fetch(`${runtime.url}${urlPath}`, { headers });
+
+  // Whatever the status, the secret must never be in the body
+  const expectNoLeak = async (response: Response, status: number) => {
+    const body = await response.text();
+    expect(body).not.toContain(SECRET);
+    expect(response.status).toBe(status);
+  };
+
+  beforeAll(async () => {
+    runtime = await startRuntime({
+      pluginConfig: {
+        name: 'test-plugin',
+        version: '1.0.0',
+        description: 'Hostile path tests',
+        staticFiles: [
+          { folder: './docs', urlPath: '/docs', auth: 'none' },
+          { folder: './reports', urlPath: '/reports', access: 'per-user' },
+          { folder: './private', urlPath: '/private' },
+        ],
+      },
+      pluginFiles: {
+        'docs/guide.md': '# Guide',
+        'reports/.keep': '',
+        'private/plan.md': 'plan',
+        '.claude/settings.json': '{}',
+      },
+    });
+
+    await writeTree(runtime.root, { 'secret.txt': SECRET });
+    await fs.symlink(path.join(runtime.root, 'secret.txt'), path.join(runtime.pluginDir, 'docs/leak.txt'));
+    await fs.symlink(runtime.root, path.join(runtime.pluginDir, 'docs/up'));
+
+    sessionId = 'hostile-paths';
+    const response = await fetch(`${runtime.url}/execute`, {
+      method: 'POST',
+      headers: { ...CALLER, 'content-type': 'application/json' },
+      body: JSON.stringify({ prompt: 'hello', sessionId }),
+    });
+    expect(response.status).toBe(200);
+
+    const workspacePath = runtime.sessionManager.find(sessionId)!.workspacePath;
+    await writeTree(workspacePath, { 'reports/summary.txt': 'summary', 'out.txt': 'output' });
+    await fs.symlink(path.join(runtime.root, 'secret.txt'), path.join(workspacePath, 'reports/leak.txt'));
+    await fs.symlink(path.join(runtime.root, 'secret.txt'), path.join(workspacePath, 'leak.txt'));
+    await fs.symlink(path.join(workspacePath, 'CLAUDE.md'), path.join(workspacePath, 'notes.md'));
+  });
+
+  afterAll(async () => {
+    await runtime?.close();
+  });
+
+  describe('GET /filesystem', () => {
+    it('serves files inside a static folder', async () => {
+      const response = await get('/filesystem?f=docs/guide.md');
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('# Guide');
+    });
+
+    it.each([
+      'docs/../../secret.txt',
+      'docs/../secret.txt',
+      'docs/..%2F..%2Fsecret.txt',
+      'docs%2F..%2F..%2Fsecret.txt',
+      'docs/%2e%2e/%2e%2e/secret.txt',
+    ])('rejects the traversal %s', async (f) => {
+      await expectNoLeak(await get(`/filesystem?f=${f}`), 400);
+    });
+
+    it.each(['/etc/passwd', '../secret.txt', 'secret.txt'])(
+      'does not serve %s, which no static folder covers',
+      async (f) => {
+        await expectNoLeak(await get(`/filesystem?f=${encodeURIComponent(f)}`), 404);
+      }
+    );
+
+    it('rejects absolute paths after the static folder prefix', async () => {
+      const f = `docs/${path.join(runtime.root, 'secret.txt')}`;
+      await expectNoLeak(await get(`/filesystem?f=${encodeURIComponent(f)}`), 400);
+    });
+
+    it('rejects symlinks that lead out of the static folder', async () => {
+      await expectNoLeak(await get('/filesystem?f=docs/leak.txt'), 400);
+      await expectNoLeak(await get('/filesystem?f=docs/up/secret.txt'), 400);
+    });
+
+    it('rejects traversal and symlinks in per-user folders', async () => {
+      const query = `sessionId=${sessionId}`;
+      expect((await get(`/filesystem?f=reports/summary.txt&${query}`)).status).toBe(200);
+      await expectNoLeak(await get(`/filesystem?f=reports/../../../secret.txt&${query}`), 400);
+      await expectNoLeak(await get(`/filesystem?f=reports/../out.txt&${query}`), 400);
+      await expectNoLeak(await get(`/filesystem?f=reports/leak.txt&${query}`), 400);
+    });
+
+    it('does not serve another caller\'s per-user files', async () => {
+      await expectNoLeak(await get(`/filesystem?f=reports/summary.txt&sessionId=${sessionId}`, OTHER_CALLER), 404);
+    });
+
+    it('only serves token folders to bazaar tokens and signed links', async () => {
+      process.env.BAZAAR_ADMIN_SECRET = 'test-admin-secret';
+      let token: string;
+      try {
+        const created = await fetch(`${runtime.url}/admin/tokens`, {
+          method: 'POST',
+          headers: { 'x-api-key': 'test-admin-secret', 'content-type': 'application/json' },
+          body: JSON.stringify({ label: 'static files' }),
+        });
+        expect(created.status).toBe(201);
+        token = (await created.json()).token;
+      } finally {
+        delete process.env.BAZAAR_ADMIN_SECRET;
+      }
+
+      // Without a server key any string passes as an API key
+      expect((await get('/filesystem?f=private/plan.md', { 'x-api-key': 'anything' })).status).toBe(401);
+      const listed = await (await get('/static/files', { authorization: 'Bearer anything' })).json();
+      expect(listed.staticFiles.map((folder: { urlPath: string }) => folder.urlPath)).not.toContain('/private');
+
+      const response = await get('/filesystem?f=private/plan.md', { authorization: `Bearer ${token}` });
+      expect(await response.text()).toBe('plan');
+
+      const withToken = await (await get('/static/files', { authorization: `Bearer ${token}` })).json();
+      const folder = withToken.staticFiles.find((entry: { urlPath: string }) => entry.urlPath === '/private');
+      const signed = await fetch(`${runtime.url}${folder.files.children[0].url}`);
+      expect(await signed.text()).toBe('plan');
+    });
+  });
+
+  describe('GET /static/files', () => {
+    it('does not list directories above the static folder', async () => {
+      for (const subPath of ['..', '../..', 'up', '../plugin']) {
+        const response = await get(`/static/files?urlPath=/docs&path=${encodeURIComponent(subPath)}`);
+        const body = await response.text();
+        expect(body).not.toContain('secret.txt');
+        expect(response.status).toBe(404);
+      }
+    });
+  });
+
+  describe('/sessions/:id/files/*', () => {
+    it('serves files inside the workspace', async () => {
+      const response = await get(`/sessions/${sessionId}/files/out.txt`);
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('output');
+    });
+
+    it.each(['..%2F..%2Fsecret.txt', 'reports/%2e%2e%2F%2e%2e%2F%2e%2e%2Fsecret.txt', 'reports%2F..%2F..%2F..%2Fsecret.txt'])(
+      'rejects the traversal %s',
+      async (filePath) => {
+        await expectNoLeak(await get(`/sessions/${sessionId}/files/${filePath}`), 400);
+      }
+    );
+
+    it.each(['CLAUDE.md', 'claude.md', '.claude/settings.json', 'notes.md'])(
+      'does not serve the plugin file %s',
+      async (filePath) => {
+        const response = await get(`/sessions/${sessionId}/files/${filePath}`);
+        expect(await response.text()).not.toContain('# Plugin');
+        expect(response.status).toBe(404);
+      }
+    );
+
+    it('leaves plugin files out of the listing', async () => {
+      const { files } = await (await get(`/sessions/${sessionId}/files`)).json();
+      const names = files.children.map((child: { name: string }) => child.name);
+
+      expect(names).toContain('out.txt');
+      expect(names).not.toContain('CLAUDE.md');
+    });
+
+    it('rejects symlinks that lead out of the workspace', async () => {
+      await expectNoLeak(await get(`/sessions/${sessionId}/files/leak.txt`), 400);
+    });
+
+    it('refuses to delete outside the workspace or protected plugin files', async () => {
+      const remove = (filePath: string) =>
+        fetch(`${runtime.url}/sessions/${sessionId}/files/${filePath}`, { method: 'DELETE', headers: CALLER });
+
+      expect((await remove('..%2F..%2Fsecret.txt')).status).toBe(400);
+      expect((await remove('CLAUDE.md')).status).toBe(403);
+      expect(await fs.readFile(path.join(runtime.root, 'secret.txt'), 'utf8')).toBe(SECRET);
+
+      const workspacePath = runtime.sessionManager.find(sessionId)!.workspacePath;
+      expect(await fs.readFile(path.join(workspacePath, 'CLAUDE.md'), 'utf8')).toBe('# Plugin\n');
+    });
+  });
+
+  describe('GET /sessions/:id/archive', () => {
+    // Entry names of a tar.gz archive
+    const archiveEntries = async (response: Response): Promise<string[]> => {
+      const tar = gunzipSync(Buffer.from(await response.arrayBuffer()));
+      const names: string[] = [];
+      for (let offset = 0; offset + 512 <= tar.length && tar[offset] !== 0; ) {
+        const header = tar.subarray(offset, offset + 512);
+        names.push(header.toString('utf8', 0, 100).replace(/\0.*$/s, ''));
+        const size = parseInt(header.toString('utf8', 124, 136).replace(/\0.*$/s, '').trim() || '0', 8);
+        offset += 512 + Math.ceil(size / 512) * 512;
+      }
+      return names;
+    };
+
+    it('only lets admins include the plugin files', async () => {
+      process.env.BAZAAR_ADMIN_SECRET = 'test-admin-secret';
+      try {
+        const url = `/sessions/${sessionId}/archive?format=tar.gz&includePluginFiles=true`;
+
+        const own = await archiveEntries(await get(url));
+        expect(own).toContain('out.txt');
+        expect(own).not.toContain('CLAUDE.md');
+
+        const admin = await archiveEntries(await get(url, { 'x-api-key': 'test-admin-secret' }));
+        expect(admin).toContain('CLAUDE.md');
+      } finally {
+        delete process.env.BAZAAR_ADMIN_SECRET;
+      }
+    });
+  });
+});
@@ -4,89 +4,37 @@ import ReactMarkdown from 'react-markdown';
 import { IoChatbubbleOutline, IoFolderOutline, IoSettingsOutline } from 'react-icons/io5';
 import { useProjects } from './contexts/ProjectContext';
 import { ProjectSelector } from './components/ProjectSelector';
-
-// Stream event types (matching container-runtime)
-interface TextContent {
-  type: 'text';
-  text: string;
-}
-
-interface ToolUseContent {
-  type: 'tool_use';
-  id: string;
-  name: string;
-  input: Record<string, unknown>;
-}
-
-interface ToolResultContent {
-  type: 'tool_result';
-  tool_use_id: string;
-  content: string | ContentBlock[];
-  is_error?: boolean;
-}
-
-interface ThinkingContent {
-  type: 'thinking';
-  thinking: string;
-}
-
-type ContentBlock = TextContent | ToolUseContent | ToolResultContent | ThinkingContent;
-
-interface AssistantMessageEvent {
-  type: 'assistant';
-  message: {
-    role: 'assistant';
-    content: ContentBlock[];
-  };
-}
-
-interface ResultEvent {
-  type: 'result';
-  subtype: 'success' | 'error';
-  total_cost_usd: number;
-  duration_ms: number;
-  num_turns: number;
-  result: string;
-  session_id: string;
-  is_error: boolean;
-}
-
-interface InitEvent {
-  type: 'init';
-  session_id: string;
-}
-
-interface PartialEvent {
-  type: 'partial';
-  delta: {
-    type: string;
-    text?: string;
-  };
-}
-
-interface ExecutionStartEvent {
-  type: 'execution_start';
-  executionId: string;
-}
-
-type StreamEvent = InitEvent | ExecutionStartEvent | AssistantMessageEvent | PartialEvent | ResultEvent | { type: 'stream_end' | 'error' | 'cancelled'; error?: string };
+import { ModelSelector } from './components/ModelSelector';
+import { BudgetIndicator } from './components/BudgetIndicator';
+import { FileTreeItem } from './components/FileTreeItem';
+import { WorkspacePanel } from './components/WorkspacePanel';
+import { FileUploadList, UploadItem } from './components/FileUploadList';
+import { WorkspaceChanges } from './components/WorkspaceChanges';
+import { ToolApproval, ToolApprovalCard } from './components/ToolApprovalCard';
+import { HttpError } from './services/ExecutionClient';
+import { UploadHandle, uploadFile } from './services/FileUploader';
+import { AssistantMessageEvent, ContentBlock, ResultEvent, StreamEvent, WorkspaceChangesEvent } from './types/stream';
+import { StaticFilesResult } from './types/files';
 
 interface StreamingMessage {
   role: 'assistant';
   events: ContentBlock[];
   isStreaming: boolean;
   result?: ResultEvent;
+  // Set while the run waits for a free slot on the runtime
+  queue?: { position: number; estimatedWaitMs: number };
+  // Files the run added, changed or removed
+  changes?: Omit<WorkspaceChangesEvent, 'type'>;
+  // Tool uses the run asked the user to approve
+  approvals?: ToolApproval[];
 }
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   streaming?: StreamingMessage;
-}
-
-interface FileItem {
-  path: string;
-  content: string;
+  // Snapshot of the workspace taken before this prompt ran
+  checkpointId?: number;
 }
 
 interface SlashCommand {
@@ -96,98 +44,17 @@ interface SlashCommand {
 }
 
 
-interface FileTreeNode {
-  name: string;
-  type: 'file' | 'directory';
-  size?: number;
-  children?: FileTreeNode[];
-}
-
-interface StaticFilesResult {
-  folder: string;
-  urlPath: string;
-  files: FileTreeNode;
-}
-
-// Recursive component to render file tree
-const FileTree = ({ node, depth = 0, basePath = '', urlPath = '' }: { node: FileTreeNode; depth?: number; basePath?: string; urlPath?: string }) => {
-  const [isOpen, setIsOpen] = useState(depth < 2);
-  const paddingLeft = depth * 16 + 8;
-  const currentPath = basePath ? `${basePath}/${node.name}` : node.name;
-
-  if (node.type === 'file') {
-    const downloadUrl = `${urlPath}?f=${encodeURIComponent(currentPath)}`;
-    return (
-      <div
-        className="flex items-center py-1 px-2 hover:bg-gray-100 text-sm"
-        style={{ paddingLeft: paddingLeft + 8 }}
-      >
-        <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-        </svg>
-        <a
-          href={downloadUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-blue-600 hover:text-blue-800 truncate cursor-pointer"
-        >
-          {node.name}
-        </a>
-        {node.size !== undefined && (
-          <span className="ml-auto text-xs text-gray-400 mr-2">
-            {node.size < 1024 ? `${node.size}B` : `${(node.size / 1024).toFixed(1)}KB`}
-          </span>
-        )}
-        <a
-          href={downloadUrl}
-          download={node.name}
-          className="p-1 text-gray-400 hover:text-gray-600"
-          title="Download"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-          </svg>
-        </a>
-      </div>
-    );
-  }
-
-  return (
-    <div>
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="flex items-center w-full py-1 px-2 hover:bg-gray-100 text-sm"
-        style={{ paddingLeft }}
-      >
-        <svg
-          className={`w-4 h-4 mr-1 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`}
-          fill="none"
-          stroke="currentColor"
-          viewBox="0 0 24 24"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-        </svg>
-        <svg className="w-4 h-4 mr-2 text-yellow-500" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M10 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z" />
-        </svg>
-        <span className="text-gray-700">{node.name}</span>
-      </button>
-      {isOpen && node.children && (
-        <div>
-          {node.children.map((child, index) => (
-            <FileTree key={`${child.name}-${index}`} node={child} depth={depth + 1} basePath={currentPath} urlPath={urlPath} />
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
-
 // Component for static file cards
 function StaticFileCard({ result }: { result: StaticFilesResult }) {
+  const { selectedProject } = useProjects();
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 py-2">
-      <FileTree node={result.files} urlPath="/api/filesystem" />
+      {result.access === 'per-user' && (
+        <p className="px-4 pb-1 text-xs text-gray-400">Only visible to you</p>
+      )}
+      {/* File links come signed from the runtime, so no auth header is needed */}
+      <FileTreeItem node={result.files} baseUrl={selectedProject?.url} urlPath="/api/filesystem" />
     </div>
   );
 }
@@ -217,7 +84,13 @@ function LoadingWord() {
 }
 
 // Terminal-like streaming message display
-function StreamingMessageDisplay({ streaming }: { streaming: StreamingMessage }) {
+function StreamingMessageDisplay({
+  streaming,
+  onApprove,
+}: {
+  streaming: StreamingMessage;
+  onApprove: (requestId: string, decision: 'allow' | 'deny', remember: boolean) => Promise<void>;
+}) {
   return (
     <div className="font-mono text-sm space-y-2">
       {streaming.events.map((block, index) => {
@@ -303,6 +176,14 @@ function StreamingMessageDisplay({ streaming }: { streaming: StreamingMessage })
         }
       })}
 
+      {streaming.approvals?.map((approval) => (
+        <ToolApprovalCard
+          key={approval.requestId}
+          approval={approval}
+          onAnswer={(decision, remember) => onApprove(approval.requestId, decision, remember)}
+        />
+      ))}
+
       {streaming.isStreaming && (
         <div className="flex items-center gap-2 text-gray-500">
           <div className="flex space-x-1">
@@ -310,10 +191,21 @@ function StreamingMessageDisplay({ streaming }: { streaming: StreamingMessage })
             <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
             <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
           </div>
-          <LoadingWord />
+          {streaming.queue ? (
+            <span className="text-gray-500 italic">
+              Waiting in queue (position {streaming.queue.position}, about{' '}
+              {Math.max(1, Math.round(streaming.queue.estimatedWaitMs / 1000))}s)...
+            </span>
+          ) : (
+            <LoadingWord />
+          )}
         </div>
       )}
 
+      {streaming.changes && (
+        <WorkspaceChanges changes={streaming.changes.changes} truncated={streaming.changes.truncated} />
+      )}
+
       {streaming.result && !streaming.isStreaming && (
         <div className="text-xs text-gray-400 mt-3 pt-2 border-t border-gray-200 flex gap-4">
           <span>{(streaming.result.duration_ms / 1000).toFixed(1)}s</span>
@@ -431,6 +323,7 @@ function SettingsPage() {
               >
                 console.anthropic.com
               </a>
+              , or paste the access token the project's owner gave you.
             </p>
 
             <input
@@ -463,14 +356,23 @@ function SettingsPage() {
 }
 
 // FileSystem Page Component
-function FileSystemPage({ staticFiles }: { staticFiles: StaticFilesResult[] }) {
+function FileSystemPage({
+  staticFiles,
+  sessionId,
+  refreshKey,
+}: {
+  staticFiles: StaticFilesResult[];
+  sessionId: string;
+  refreshKey: unknown;
+}) {
   return (
     <div className="flex-1 flex flex-col">
       <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200 bg-white">
         <h2 className="text-xl font-semibold text-gray-900">Files</h2>
         <ProjectSelector />
       </div>
-      <div className="flex-1 overflow-y-auto p-6">
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <WorkspacePanel sessionId={sessionId} refreshKey={refreshKey} />
         {staticFiles.length === 0 ? (
           <p className="text-gray-500">No static files configured</p>
         ) : (
@@ -488,22 +390,22 @@ function FileSystemPage({ staticFiles }: { staticFiles: StaticFilesResult[] }) {
 export default function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [files, setFiles] = useState<FileItem[]>([]);
+  const [files, setFiles] = useState<UploadItem[]>([]);
+  const uploadsRef = useRef(new Map<string, UploadHandle>());
   const [isLoading, setIsLoading] = useState(false);
   const [commands, setCommands] = useState<SlashCommand[]>([]);
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [selectedCommandIndex, setSelectedCommandIndex] = useState(0);
   const [staticFiles, setStaticFiles] = useState<StaticFilesResult[]>([]);
+  const [model, setModel] = useState<string | undefined>();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const location = useLocation();
 
-  const { apiCall, selectedProject } = useProjects();
+  const { apiCall, selectedProject, getExecutionClient } = useProjects();
 
   // Generate session ID for conversation context
   const [sessionId] = useState(() => crypto.randomUUID());
-  const [currentExecutionId, setCurrentExecutionId] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -521,17 +423,23 @@ export default function App() {
       .then((res) => res.json())
       .then((data) => {
         if (data.commands) {
-          setCommands(data.commands);
+          // The model dropdown replaces /model, which does nothing headless
+          setCommands(data.commands.filter((cmd: SlashCommand) => cmd.name !== '/model'));
         }
       })
       .catch((err) => console.error('Failed to fetch commands:', err));
   }, [selectedProject, apiCall]);
 
-  // Fetch static files when project changes
+  // Start each project on its default model
+  useEffect(() => {
+    setModel(selectedProject?.defaultModel ?? selectedProject?.models?.[0]);
+  }, [selectedProject]);
+
+  // Fetch static files when project changes, and after each run for per-user folders
   useEffect(() => {
     if (!selectedProject) return;
 
-    apiCall('/static/files')
+    apiCall(`/static/files?sessionId=${encodeURIComponent(sessionId)}`)
       .then((res) => res.json())
       .then((data) => {
         if (data.staticFiles) {
@@ -539,7 +447,10 @@ export default function App() {
         }
       })
       .catch((err) => console.error('Failed to fetch static files:', err));
-  }, [selectedProject, apiCall]);
+  }, [selectedProject, apiCall, sessionId, isLoading]);
+
+  // Prompts wait until attached files have reached the workspace
+  const isUploading = files.some((file) => file.status === 'uploading');
 
   // Filter commands based on input
   const filteredCommands = input.startsWith('/')
@@ -564,46 +475,92 @@ export default function App() {
     inputRef.current?.focus();
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const updateFile = (id: string, changes: Partial<UploadItem>) => {
+    setFiles((prev) => prev.map((file) => (file.id === id ? { ...file, ...changes } : file)));
+  };
+
+  // Files go straight into the session workspace, where Claude will find them
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const uploadedFiles = e.target.files;
-    if (!uploadedFiles) return;
-
-    const newFiles: FileItem[] = [];
-    for (const file of uploadedFiles) {
-      const content = await file.text();
-      newFiles.push({
-        path: file.name,
-        content,
-      });
+    if (!uploadedFiles || !selectedProject) return;
+
+    for (const file of Array.from(uploadedFiles)) {
+      const id = crypto.randomUUID();
+      setFiles((prev) => [...prev, { id, name: file.name, progress: 0, status: 'uploading' }]);
+
+      const upload = uploadFile(selectedProject.url, sessionId, file, (progress) =>
+        updateFile(id, { progress })
+      );
+      uploadsRef.current.set(id, upload);
+
+      upload.done
+        .then(() => updateFile(id, { status: 'uploaded' }))
+        .catch((error: Error) => {
+          if (error.name !== 'AbortError') {
+            updateFile(id, { status: 'failed', error: error.message });
+          }
+        })
+        .finally(() => uploadsRef.current.delete(id));
     }
-    setFiles((prev) => [...prev, ...newFiles]);
-  };
 
-  const removeFile = (index: number) => {
-    setFiles((prev) => prev.filter((_, i) => i !== index));
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
-  const handleCancel = async () => {
-    // Abort the fetch request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+  const removeFile = (id: string) => {
+    const file = files.find((item) => item.id === id);
+
+    uploadsRef.current.get(id)?.abort();
+    if (file?.status === 'uploaded') {
+      apiCall(`/sessions/${encodeURIComponent(sessionId)}/files/${encodeURIComponent(file.name)}`, {
+        method: 'DELETE',
+      }).catch((err) => console.error('Failed to delete file:', err));
     }
 
-    // Also call the cancel endpoint if we have an executionId
-    if (currentExecutionId && selectedProject) {
-      try {
-        await fetch(`${selectedProject.url}/execute/cancel`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ executionId: currentExecutionId }),
-        });
-      } catch {
-        // Ignore errors - the process may already be done
+    setFiles((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  // Roll files and conversation back to before the given user message
+  const restoreCheckpoint = async (index: number) => {
+    const message = messages[index];
+    if (message?.checkpointId === undefined) return;
+    if (!confirm('Restore files and conversation to before this message? Later messages will be discarded.')) return;
+
+    try {
+      const response = await apiCall(
+        `/sessions/${encodeURIComponent(sessionId)}/checkpoints/${message.checkpointId}/restore`,
+        { method: 'POST' }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
       }
+
+      setMessages((prev) => prev.slice(0, index));
+      setInput(message.content);
+    } catch (error) {
+      alert(`Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Answer a tool approval; the run shows the outcome once the runtime resolves it
+  const answerToolApproval = async (requestId: string, decision: 'allow' | 'deny', remember: boolean) => {
+    const response = await apiCall(`/permissions/${encodeURIComponent(requestId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, remember }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (selectedProject) {
+      await getExecutionClient(sessionId).cancel();
     }
 
-    setCurrentExecutionId(null);
     setIsLoading(false);
 
     // Mark the last message as cancelled
@@ -626,7 +583,7 @@ export default function App() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || isUploading) return;
 
     const userMessage = input.trim();
     setInput('');
@@ -653,166 +610,180 @@ export default function App() {
         return;
       }
 
-      // Get API key from localStorage
-      const apiKey = localStorage.getItem('bazaar_api_key');
-
-      // Create AbortController for this request
-      const abortController = new AbortController();
-      abortControllerRef.current = abortController;
-
-      // Use streaming endpoint
-      const response = await fetch(`${selectedProject.url}/execute/stream`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(apiKey ? { 'x-api-key': apiKey } : {}),
-        },
-        body: JSON.stringify({
-          prompt: userMessage,
-          files: files.length > 0 ? files : undefined,
-          sessionId,
-        }),
-        signal: abortController.signal,
-      });
-
-      if (response.status === 401) {
-        setMessages((prev) => [
-          ...prev,
-          {
-            role: 'assistant',
-            content: `**Authentication Required**\n\nPlease configure your Anthropic API key in [Settings](/settings).`,
-          },
-        ]);
-        setIsLoading(false);
-        return;
-      }
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      // Initialize streaming message
-      const streamingMessage: StreamingMessage = {
-        role: 'assistant',
-        events: [],
-        isStreaming: true,
-      };
-
-      setMessages((prev) => [
-        ...prev,
-        { role: 'assistant', content: '', streaming: streamingMessage },
-      ]);
-
-      // Read SSE stream
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      let started = false;
+
+      const handleStreamEvent = (event: StreamEvent) => {
+        if (event.type === 'execution_start') {
+          started = true;
+          setMessages((prev) => [
+            ...prev,
+            {
+              role: 'assistant',
+              content: '',
+              streaming: { role: 'assistant', events: [], isStreaming: true },
+            },
+          ]);
+          return;
+        }
 
-      if (!reader) {
-        throw new Error('No response body');
-      }
+        // Errors before the run started have no streaming message to attach to
+        if (event.type === 'error' && !started) {
+          setMessages((prev) => [
+            ...prev,
+            { role: 'assistant', content: `Error: ${event.error || 'Unknown error'}` },
+          ]);
+          return;
+        }
 
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const jsonStr = line.slice(6);
-            if (!jsonStr.trim()) continue;
-
-            try {
-              const event = JSON.parse(jsonStr) as StreamEvent;
-
-              if (event.type === 'execution_start') {
-                setCurrentExecutionId((event as ExecutionStartEvent).executionId);
-              } else if (event.type === 'assistant') {
-                const assistantEvent = event as AssistantMessageEvent;
-                // Add content blocks to streaming events
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage?.streaming) {
-                    lastMessage.streaming = {
-                      ...lastMessage.streaming,
-                      events: [...lastMessage.streaming.events, ...assistantEvent.message.content],
-                    };
-                  }
-                  return newMessages;
-                });
-              } else if (event.type === 'result') {
-                const resultEvent = event as ResultEvent;
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage?.streaming) {
-                    lastMessage.streaming = {
-                      ...lastMessage.streaming,
-                      isStreaming: false,
-                      result: resultEvent,
-                    };
-                  }
-                  return newMessages;
-                });
-              } else if (event.type === 'stream_end') {
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage?.streaming) {
-                    lastMessage.streaming = {
-                      ...lastMessage.streaming,
-                      isStreaming: false,
-                    };
-                  }
-                  return newMessages;
-                });
-              } else if (event.type === 'cancelled') {
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage?.streaming) {
-                    lastMessage.streaming = {
-                      ...lastMessage.streaming,
-                      events: [
-                        ...lastMessage.streaming.events,
-                        { type: 'text', text: '\n\n*Cancelled*' },
-                      ],
-                      isStreaming: false,
-                    };
-                  }
-                  return newMessages;
-                });
-              } else if (event.type === 'error') {
-                const errorEvent = event as { type: 'error'; error?: string };
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage?.streaming) {
-                    lastMessage.streaming = {
-                      ...lastMessage.streaming,
-                      events: [
-                        ...lastMessage.streaming.events,
-                        { type: 'text', text: `Error: ${errorEvent.error || 'Unknown error'}` },
-                      ],
-                      isStreaming: false,
-                    };
-                  }
-                  return newMessages;
-                });
+        if (event.type === 'checkpoint') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            for (let i = newMessages.length - 1; i >= 0; i--) {
+              if (newMessages[i].role === 'user') {
+                newMessages[i] = { ...newMessages[i], checkpointId: event.checkpointId };
+                break;
               }
-            } catch {
-              // Skip malformed JSON
             }
-          }
+            return newMessages;
+          });
+        } else if (event.type === 'workspace_changes') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                changes: { changes: event.changes, truncated: event.truncated },
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'permission_request') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              const { type: _type, ...approval } = event;
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                approvals: [...(lastMessage.streaming.approvals ?? []), approval],
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'permission_resolved') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                approvals: lastMessage.streaming.approvals?.map((approval) =>
+                  approval.requestId === event.requestId ? { ...approval, decision: event.decision } : approval
+                ),
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'queued') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                queue: { position: event.position, estimatedWaitMs: event.estimatedWaitMs },
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'assistant') {
+          const assistantEvent = event as AssistantMessageEvent;
+          // Add content blocks to streaming events
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                events: [...lastMessage.streaming.events, ...assistantEvent.message.content],
+                queue: undefined,
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'result') {
+          const resultEvent = event as ResultEvent;
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                isStreaming: false,
+                result: resultEvent,
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'stream_end') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                isStreaming: false,
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'cancelled') {
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                events: [
+                  ...lastMessage.streaming.events,
+                  { type: 'text', text: '\n\n*Cancelled*' },
+                ],
+                isStreaming: false,
+              };
+            }
+            return newMessages;
+          });
+        } else if (event.type === 'error') {
+          const errorEvent = event as { type: 'error'; error?: string };
+          setMessages((prev) => {
+            const newMessages = [...prev];
+            const lastMessage = newMessages[newMessages.length - 1];
+            if (lastMessage?.streaming) {
+              lastMessage.streaming = {
+                ...lastMessage.streaming,
+                events: [
+                  ...lastMessage.streaming.events,
+                  { type: 'text', text: `Error: ${errorEvent.error || 'Unknown error'}` },
+                ],
+                isStreaming: false,
+              };
+            }
+            return newMessages;
+          });
         }
-      }
+      };
+
+      await getExecutionClient(sessionId).execute(
+        {
+          prompt: userMessage,
+          sessionId,
+          model,
+        },
+        handleStreamEvent
+      );
 
-      // Clear files after successful execution
+      // Uploaded files stay in the workspace; clear the attachment chips
       setFiles([]);
     } catch (error) {
       // Don't show error for user-initiated cancellation
@@ -821,6 +792,17 @@ export default function App() {
         return;
       }
 
+      if (error instanceof HttpError && error.status === 401) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: `**Authentication Required**\n\nPlease configure your Anthropic API key or access token in [Settings](/settings).`,
+          },
+        ]);
+        return;
+      }
+
       console.error('Error:', error);
       setMessages((prev) => [
         ...prev,
@@ -831,8 +813,6 @@ export default function App() {
       ]);
     } finally {
       setIsLoading(false);
-      setCurrentExecutionId(null);
-      abortControllerRef.current = null;
     }
   };
 
@@ -845,6 +825,7 @@ export default function App() {
             Claude-Bazaar
           </h1>
           <p className="text-[12px] text-gray-400 truncate">Share & Monetize your Plugins</p>
+          <BudgetIndicator refreshKey={isLoading} />
         </div>
         <nav className="flex-1 p-2">
           <Link
@@ -889,7 +870,7 @@ export default function App() {
       <div className="flex-1 flex flex-col">
         <Routes>
           <Route path="/settings" element={<SettingsPage />} />
-          <Route path="/filesystem" element={<FileSystemPage staticFiles={staticFiles} />} />
+          <Route path="/filesystem" element={<FileSystemPage staticFiles={staticFiles} sessionId={sessionId} refreshKey={isLoading} />} />
           <Route path="*" element={
             <>
             {/* Chat View */}
@@ -904,21 +885,8 @@ export default function App() {
                 <div className="w-full max-w-2xl">
                   {/* File uploads */}
                   {files.length > 0 && (
-                    <div className="mb-2 flex flex-wrap gap-2">
-                      {files.map((file, index) => (
-                        <div
-                          key={index}
-                          className="flex items-center bg-white border border-gray-300 rounded px-2 py-1 text-sm"
-                        >
-                          <span className="text-gray-700">{file.path}</span>
-                          <button
-                            onClick={() => removeFile(index)}
-                            className="ml-2 text-gray-400 hover:text-red-500"
-                          >
-                            ×
-                          </button>
-                        </div>
-                      ))}
+                    <div className="mb-2">
+                      <FileUploadList files={files} onRemove={removeFile} />
                     </div>
                   )}
 
@@ -976,7 +944,10 @@ export default function App() {
 
                       {/* Bottom toolbar */}
                       <div className="flex items-center justify-between px-3 py-2 border-t border-gray-100">
-                        <ProjectSelector />
+                        <div className="flex items-center gap-2">
+                          <ProjectSelector />
+                          <ModelSelector models={selectedProject?.models ?? []} value={model} onChange={setModel} />
+                        </div>
                         <div className="flex items-center space-x-2">
                           <label className="cursor-pointer">
                             <input
@@ -1004,7 +975,7 @@ export default function App() {
 
                           <button
                             type="submit"
-                            disabled={isLoading || !input.trim()}
+                            disabled={isLoading || isUploading || !input.trim()}
                             className="p-2 bg-gray-200 text-gray-600 rounded-lg hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
                           >
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1040,7 +1011,7 @@ export default function App() {
                       >
                         {message.role === 'assistant' ? (
                           message.streaming ? (
-                            <StreamingMessageDisplay streaming={message.streaming} />
+                            <StreamingMessageDisplay streaming={message.streaming} onApprove={answerToolApproval} />
                           ) : (
                             <div className="prose prose-sm max-w-none">
                               <ReactMarkdown
@@ -1063,6 +1034,17 @@ export default function App() {
                           <p className="whitespace-pre-wrap">{message.content}</p>
                         )}
                       </div>
+                      {message.checkpointId !== undefined && !isLoading && (
+                        <button
+                          onClick={() => restoreCheckpoint(index)}
+                          className="order-first self-end mr-2 p-1 text-gray-400 hover:text-gray-600"
+                          title="Restore to here"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                   ))}
 
@@ -1084,22 +1066,7 @@ export default function App() {
                 {/* File uploads */}
                 {files.length > 0 && (
                   <div className="px-6 py-2 bg-gray-100 border-t border-gray-200">
-                    <div className="flex flex-wrap gap-2">
-                      {files.map((file, index) => (
-                        <div
-                          key={index}
-                          className="flex items-center bg-white border border-gray-300 rounded px-2 py-1 text-sm"
-                        >
-                          <span className="text-gray-700">{file.path}</span>
-                          <button
-                            onClick={() => removeFile(index)}
-                            className="ml-2 text-gray-400 hover:text-red-500"
-                          >
-                            ×
-                          </button>
-                        </div>
-                      ))}
-                    </div>
+                    <FileUploadList files={files} onRemove={removeFile} />
                   </div>
                 )}
 
@@ -1159,7 +1126,10 @@ export default function App() {
 
                       {/* Bottom toolbar */}
                       <div className="flex items-center justify-between px-3 py-2 border-t border-gray-100">
-                        <ProjectSelector dropUp />
+                        <div className="flex items-center gap-2">
+                          <ProjectSelector dropUp />
+                          <ModelSelector models={selectedProject?.models ?? []} value={model} onChange={setModel} />
+                        </div>
                         <div className="flex items-center space-x-2">
                           <label className="cursor-pointer">
                             <input
@@ -1204,7 +1174,7 @@ export default function App() {
                           ) : (
                             <button
                               type="submit"
-                              disabled={!input.trim()}
+                              disabled={isUploading || !input.trim()}
                               className="p-1.5 bg-gray-200 text-gray-600 rounded-lg hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
                             >
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { useProjects } from '../contexts/ProjectContext';
+
+interface QuotaWindow {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface QuotaStatus {
+  usdPerDay?: QuotaWindow;
+  usdPerMonth?: QuotaWindow;
+  executionsPerHour?: QuotaWindow;
+}
+
+interface BudgetIndicatorProps {
+  // Changing this refetches the quota, e.g. after each execution
+  refreshKey?: unknown;
+}
+
+function isLow(window: QuotaWindow): boolean {
+  return window.remaining <= window.limit * 0.1;
+}
+
+export function BudgetIndicator({ refreshKey }: BudgetIndicatorProps) {
+  const { selectedProject } = useProjects();
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    if (!selectedProject) {
+      setQuota(null);
+      return;
+    }
+
+    let cancelled = false;
+    const apiKey = localStorage.getItem('bazaar_api_key');
+
+    fetch(`${selectedProject.url}/quota`, {
+      headers: apiKey ? { 'x-api-key': apiKey } : {},
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setQuota(data);
+      })
+      .catch(() => {
+        if (!cancelled) setQuota(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProject, refreshKey]);
+
+  const budget = quota?.usdPerDay ?? quota?.usdPerMonth;
+  const runs = quota?.executionsPerHour;
+
+  if (!budget && !runs) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 space-y-0.5 text-[12px]">
+      {budget && (
+        <div
+          className={isLow(budget) ? 'text-red-400' : 'text-gray-400'}
+          title={`Resets ${new Date(budget.resetAt).toLocaleString()}`}
+        >
+          ${budget.remaining.toFixed(2)} of ${budget.limit.toFixed(2)} left{' '}
+          {quota?.usdPerDay ? 'today' : 'this month'}
+        </div>
+      )}
+      {runs && (
+        <div
+          className={isLow(runs) ? 'text-red-400' : 'text-gray-400'}
+          title={`Next run frees up ${new Date(runs.resetAt).toLocaleString()}`}
+        >
+          {runs.remaining} of {runs.limit} runs left this hour
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { FileTreeNode } from '../types/files';
+
+interface FileTreeItemProps {
+  node: FileTreeNode;
+  depth?: number;
+  basePath?: string;
+  // Files link to baseUrl + node.url, or `${urlPath}?f=<path>` for nodes without
+  // a url, unless onDownload is given
+  baseUrl?: string;
+  urlPath?: string;
+  // For files that need an authenticated request to fetch
+  onDownload?: (path: string) => void;
+  onDelete?: (path: string) => void;
+}
+
+function formatSize(size: number): string {
+  return size < 1024 ? `${size}B` : `${(size / 1024).toFixed(1)}KB`;
+}
+
+const DownloadIcon = () => (
+  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+  </svg>
+);
+
+// Recursive component to render file tree
+export function FileTreeItem({
+  node,
+  depth = 0,
+  basePath = '',
+  baseUrl = '',
+  urlPath = '',
+  onDownload,
+  onDelete,
+}: FileTreeItemProps) {
+  const [isOpen, setIsOpen] = useState(depth < 2);
+  const paddingLeft = depth * 16 + 8;
+  const currentPath = basePath ? `${basePath}/${node.name}` : node.name;
+
+  const deleteButton = onDelete && (
+    <button
+      onClick={() => onDelete(currentPath)}
+      className="p-1 text-gray-400 hover:text-red-600"
+      title="Delete"
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+      </svg>
+    </button>
+  );
+
+  if (node.type === 'file') {
+    const downloadUrl = node.url
+      ? `${baseUrl}${node.url}`
+      : `${urlPath}?f=${encodeURIComponent(currentPath)}`;
+    return (
+      <div
+        className="flex items-center py-1 px-2 hover:bg-gray-100 text-sm"
+        style={{ paddingLeft: paddingLeft + 8 }}
+      >
+        <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        {onDownload ? (
+          <button
+            onClick={() => onDownload(currentPath)}
+            className="text-blue-600 hover:text-blue-800 truncate cursor-pointer text-left"
+          >
+            {node.name}
+          </button>
+        ) : (
+          <a
+            href={downloadUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 truncate cursor-pointer"
+          >
+            {node.name}
+          </a>
+        )}
+        {node.size !== undefined && (
+          <span className="ml-auto text-xs text-gray-400 mr-2">{formatSize(node.size)}</span>
+        )}
+        {onDownload ? (
+          <button
+            onClick={() => onDownload(currentPath)}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title="Download"
+          >
+            <DownloadIcon />
+          </button>
+        ) : (
+          <a
+            href={downloadUrl}
+            download={node.name}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title="Download"
+          >
+            <DownloadIcon />
+          </a>
+        )}
+        {deleteButton}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center hover:bg-gray-100 pr-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center flex-1 py-1 px-2 text-sm"
+          style={{ paddingLeft }}
+        >
+          <svg
+            className={`w-4 h-4 mr-1 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <svg className="w-4 h-4 mr-2 text-yellow-500" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M10 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z" />
+          </svg>
+          <span className="text-gray-700">{node.name}</span>
+        </button>
+        {deleteButton}
+      </div>
+      {isOpen && node.children && (
+        <div>
+          {node.children.map((child, index) => (
+            <FileTreeItem
+              key={`${child.name}-${index}`}
+              node={child}
+              depth={depth + 1}
+              basePath={currentPath}
+              baseUrl={baseUrl}
+              urlPath={urlPath}
+              onDownload={onDownload}
+              onDelete={onDelete}
+            />
+          ))}
+          {node.childCount !== undefined && node.childCount > node.children.length && (
+            <div className="py-1 px-2 text-xs text-gray-400" style={{ paddingLeft: paddingLeft + 24 }}>
+              {node.childCount - node.children.length} more not shown
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
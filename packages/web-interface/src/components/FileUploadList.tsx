@@ -0,0 +1,52 @@
+export interface UploadItem {
+  id: string;
+  name: string;
+  // 0..1 while uploading
+  progress: number;
+  status: 'uploading' | 'uploaded' | 'failed';
+  error?: string;
+}
+
+interface FileUploadListProps {
+  files: UploadItem[];
+  onRemove: (id: string) => void;
+}
+
+// Chips for files attached to the next prompt, with upload progress
+export function FileUploadList({ files, onRemove }: FileUploadListProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {files.map((file) => (
+        <div
+          key={file.id}
+          title={file.error}
+          className={`relative overflow-hidden flex items-center bg-white border rounded px-2 py-1 text-sm ${
+            file.status === 'failed' ? 'border-red-300' : 'border-gray-300'
+          }`}
+        >
+          {file.status === 'uploading' && (
+            <div
+              className="absolute inset-y-0 left-0 bg-blue-100 transition-all"
+              style={{ width: `${Math.round(file.progress * 100)}%` }}
+            />
+          )}
+          <span className={`relative ${file.status === 'failed' ? 'text-red-600' : 'text-gray-700'}`}>
+            {file.name}
+          </span>
+          {file.status === 'uploading' && (
+            <span className="relative ml-2 text-xs text-gray-500">{Math.round(file.progress * 100)}%</span>
+          )}
+          {file.status === 'failed' && (
+            <span className="relative ml-2 text-xs text-red-500">failed</span>
+          )}
+          <button
+            onClick={() => onRemove(file.id)}
+            className="relative ml-2 text-gray-400 hover:text-red-500"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+interface ModelSelectorProps {
+  models: string[];
+  value?: string;
+  onChange: (model: string) => void;
+}
+
+// Picks the model for the next prompt, from the ones the project allows
+export function ModelSelector({ models, value, onChange }: ModelSelectorProps) {
+  if (models.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      title="Model"
+      className="px-2 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg border border-gray-300 focus:outline-none"
+    >
+      {models.map((model) => (
+        <option key={model} value={model}>
+          {model}
+        </option>
+      ))}
+    </select>
+  );
+}
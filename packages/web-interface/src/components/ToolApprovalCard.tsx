@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+
+export interface ToolApproval {
+  requestId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  expiresAt: number;
+  // Set once the runtime resolved the request, by a user or a timeout
+  decision?: 'allow' | 'deny';
+}
+
+interface ToolApprovalCardProps {
+  approval: ToolApproval;
+  onAnswer: (decision: 'allow' | 'deny', remember: boolean) => Promise<void>;
+}
+
+function useSecondsLeft(expiresAt: number, active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  return Math.max(0, Math.ceil((expiresAt - now) / 1000));
+}
+
+// Asks the user whether Claude may use a tool; the run waits meanwhile
+export function ToolApprovalCard({ approval, onAnswer }: ToolApprovalCardProps) {
+  const [remember, setRemember] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isPending = approval.decision === undefined;
+  const secondsLeft = useSecondsLeft(approval.expiresAt, isPending);
+
+  const answer = async (decision: 'allow' | 'deny') => {
+    setIsSending(true);
+    setError(null);
+    try {
+      await onAnswer(decision, decision === 'allow' && remember);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded p-3 my-2">
+      <div className="flex items-center gap-2 text-amber-800 font-semibold mb-2">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        Allow {approval.toolName}?
+        {isPending && <span className="ml-auto font-normal text-xs text-amber-600">{secondsLeft}s</span>}
+      </div>
+      <pre className="text-xs text-amber-700 overflow-x-auto max-h-40 overflow-y-auto">
+        {JSON.stringify(approval.input, null, 2)}
+      </pre>
+
+      {isPending ? (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => answer('allow')}
+            disabled={isSending}
+            className="px-3 py-1 rounded bg-green-600 text-white text-xs hover:bg-green-700 disabled:opacity-50"
+          >
+            Allow
+          </button>
+          <button
+            onClick={() => answer('deny')}
+            disabled={isSending}
+            className="px-3 py-1 rounded bg-red-600 text-white text-xs hover:bg-red-700 disabled:opacity-50"
+          >
+            Deny
+          </button>
+          <label className="flex items-center gap-1 text-xs text-amber-800">
+            <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+            Always allow {approval.toolName} in this session
+          </label>
+          {error && <span className="text-xs text-red-600">{error}</span>}
+        </div>
+      ) : (
+        <div className={`mt-2 text-xs ${approval.decision === 'allow' ? 'text-green-700' : 'text-red-700'}`}>
+          {approval.decision === 'allow' ? 'Allowed' : 'Denied'}
+        </div>
+      )}
+    </div>
+  );
+}
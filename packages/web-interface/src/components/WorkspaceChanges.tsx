@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { FileChange } from '../types/stream';
+
+interface WorkspaceChangesProps {
+  changes: FileChange[];
+  truncated: boolean;
+}
+
+const STATUS_LABELS: Record<FileChange['status'], { label: string; className: string }> = {
+  created: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  modified: { label: 'Changed', className: 'bg-yellow-100 text-yellow-700' },
+  deleted: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+};
+
+function formatSize(size: number): string {
+  return size < 1024 ? `${size}B` : `${(size / 1024).toFixed(1)}KB`;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'bg-green-50 text-green-800';
+  if (line.startsWith('-')) return 'bg-red-50 text-red-800';
+  if (line.startsWith('@@')) return 'text-blue-600';
+  return 'text-gray-700';
+}
+
+function FileChangeItem({ change }: { change: FileChange }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const status = STATUS_LABELS[change.status];
+  const size = change.size ?? change.previousSize;
+
+  let detail: string | null = null;
+  if (change.binary) {
+    detail = size !== undefined ? `Binary file, ${formatSize(size)}` : 'Binary file';
+  } else if (!change.diff) {
+    detail = 'Too large to show';
+  }
+
+  return (
+    <div className="border-t border-gray-100 first:border-t-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!change.diff}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-gray-50 disabled:hover:bg-transparent"
+      >
+        <span className={`text-xs px-1.5 py-0.5 rounded ${status.className}`}>{status.label}</span>
+        <span className="truncate text-gray-800">{change.path}</span>
+        {detail && <span className="ml-auto text-xs text-gray-400">{detail}</span>}
+        {change.diff && (
+          <svg
+            className={`ml-auto w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        )}
+      </button>
+      {isOpen && change.diff && (
+        <pre className="text-xs overflow-x-auto max-h-80 overflow-y-auto bg-white border-t border-gray-100">
+          {change.diff.split('\n').map((line, index) => (
+            <div key={index} className={`px-3 ${diffLineClass(line)}`}>
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// Collapsible list of the files a run added, changed or removed
+export function WorkspaceChanges({ changes, truncated }: WorkspaceChangesProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded my-2 bg-gray-50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-700 font-semibold"
+      >
+        <svg
+          className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        {changes.length} {changes.length === 1 ? 'file' : 'files'} changed
+        {truncated && <span className="font-normal text-xs text-gray-400">(more not shown)</span>}
+      </button>
+      {isOpen && (
+        <div className="border-t border-gray-200">
+          {changes.map((change) => (
+            <FileChangeItem key={change.path} change={change} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useProjects } from '../contexts/ProjectContext';
+import { FileTreeNode } from '../types/files';
+import { FileTreeItem } from './FileTreeItem';
+import { saveResponse } from '../services/download';
+
+interface WorkspacePanelProps {
+  sessionId: string;
+  // Changing this reloads the listing, e.g. after each execution
+  refreshKey?: unknown;
+}
+
+function filesUrl(sessionId: string, filePath: string): string {
+  const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+  return `/sessions/${encodeURIComponent(sessionId)}/files/${encodedPath}`;
+}
+
+type ArchiveFormat = 'zip' | 'tar.gz';
+
+// Files Claude has written to the current session's workspace
+export function WorkspacePanel({ sessionId, refreshKey }: WorkspacePanelProps) {
+  const { apiCall, selectedProject } = useProjects();
+  const [files, setFiles] = useState<FileTreeNode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>('zip');
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const response = await apiCall(`/sessions/${encodeURIComponent(sessionId)}/files`);
+
+      // The session (and its workspace) only exists after the first prompt
+      if (response.status === 404) {
+        setFiles(null);
+        setError(null);
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setFiles(data.files);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [apiCall, sessionId]);
+
+  useEffect(() => {
+    if (!selectedProject) return;
+    loadFiles();
+  }, [selectedProject, loadFiles, refreshKey]);
+
+  const handleDownload = async (filePath: string) => {
+    try {
+      const response = await apiCall(`${filesUrl(sessionId, filePath)}?download=1`);
+      await saveResponse(response, filePath.split('/').pop() || 'download');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    try {
+      const response = await apiCall(
+        `/sessions/${encodeURIComponent(sessionId)}/archive?format=${archiveFormat}`
+      );
+      await saveResponse(response, `workspace.${archiveFormat}`);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (filePath: string) => {
+    if (!confirm(`Delete ${filePath}?`)) return;
+
+    try {
+      const response = await apiCall(filesUrl(sessionId, filePath), { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await loadFiles();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const children = files?.children ?? [];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700">Workspace</h3>
+        <div className="flex items-center gap-3">
+          {children.length > 0 && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleDownloadAll}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Download all
+              </button>
+              <select
+                value={archiveFormat}
+                onChange={(e) => setArchiveFormat(e.target.value as ArchiveFormat)}
+                className="text-xs text-gray-500 bg-transparent border-none focus:outline-none"
+              >
+                <option value="zip">.zip</option>
+                <option value="tar.gz">.tar.gz</option>
+              </select>
+            </div>
+          )}
+          <button
+            onClick={loadFiles}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      <div className="py-2">
+        {error && <p className="px-4 py-1 text-sm text-red-600">{error}</p>}
+        {children.length === 0 ? (
+          <p className="px-4 py-1 text-sm text-gray-500">No files in this session's workspace yet</p>
+        ) : (
+          children.map((child, index) => (
+            <FileTreeItem
+              key={`${child.name}-${index}`}
+              node={child}
+              onDownload={handleDownload}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { Project, ProjectService } from '../services/ProjectService';
+import { ExecutionClient, SseExecutionClient, WebSocketExecutionClient } from '../services/ExecutionClient';
 
 interface ProjectContextValue {
   projects: Project[];
@@ -8,6 +9,7 @@ interface ProjectContextValue {
   isLoading: boolean;
   refreshProjects: () => Promise<void>;
   apiCall: (path: string, options?: RequestInit) => Promise<Response>;
+  getExecutionClient: (sessionId: string) => ExecutionClient;
 }
 
 const ProjectContext = createContext<ProjectContextValue | null>(null);
@@ -67,6 +69,33 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
     });
   }, [selectedProject]);
 
+  // One execution client per project and session; WebSocket when the project supports it
+  const executionClientRef = useRef<{ key: string; client: ExecutionClient } | null>(null);
+
+  const getExecutionClient = useCallback((sessionId: string): ExecutionClient => {
+    if (!selectedProject) {
+      throw new Error('No project selected');
+    }
+
+    const key = `${selectedProject.id}:${sessionId}`;
+    if (executionClientRef.current?.key === key) {
+      return executionClientRef.current.client;
+    }
+
+    executionClientRef.current?.client.close();
+
+    const client = selectedProject.capabilities?.websocket && typeof WebSocket !== 'undefined'
+      ? new WebSocketExecutionClient(selectedProject.url, sessionId)
+      : new SseExecutionClient(selectedProject.url);
+
+    executionClientRef.current = { key, client };
+    return client;
+  }, [selectedProject]);
+
+  useEffect(() => {
+    return () => executionClientRef.current?.client.close();
+  }, []);
+
   return (
     <ProjectContext.Provider
       value={{
@@ -76,6 +105,7 @@ export function ProjectProvider({ children }: ProjectProviderProps) {
         isLoading,
         refreshProjects,
         apiCall,
+        getExecutionClient,
       }}
     >
       {children}
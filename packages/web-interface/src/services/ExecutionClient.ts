@@ -0,0 +1,462 @@
+import { StreamEvent } from '../types/stream';
+
+export interface ExecutionFile {
+  path: string;
+  content: string;
+}
+
+export interface ExecutionRequest {
+  prompt: string;
+  sessionId: string;
+  files?: ExecutionFile[];
+  model?: string;
+}
+
+export type StreamEventHandler = (event: StreamEvent) => void;
+
+export interface ExecutionClient {
+  readonly transport: 'sse' | 'websocket';
+  /** Resolves once the run has finished, failed or been cancelled. */
+  execute(request: ExecutionRequest, onEvent: StreamEventHandler): Promise<void>;
+  cancel(): Promise<void>;
+  close(): void;
+}
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// SSE reconnect settings for dropped connections
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+function isTerminal(event: StreamEvent): boolean {
+  return event.type === 'stream_end' || event.type === 'cancelled' || event.type === 'error';
+}
+
+function abortError(): Error {
+  return new DOMException('Execution cancelled', 'AbortError');
+}
+
+// Prefer the runtime's JSON error message, e.g. when the queue is full or a quota is used up
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') {
+      return body.resetAt
+        ? `${body.error} (resets ${new Date(body.resetAt).toLocaleString()})`
+        : body.error;
+    }
+  } catch {
+    // Not JSON
+  }
+  return `HTTP error! status: ${response.status}`;
+}
+
+function connectionLost(interruption?: string): string {
+  return interruption
+    ? `Connection to the project was lost (${interruption})`
+    : 'Connection to the project was lost';
+}
+
+function getApiKey(): string | null {
+  return localStorage.getItem('bazaar_api_key');
+}
+
+/**
+ * Runs executions over POST /execute/stream and transparently reconnects
+ * through GET /execute/stream/:executionId when the connection drops.
+ */
+export class SseExecutionClient implements ExecutionClient {
+  readonly transport = 'sse' as const;
+  private readonly baseUrl: string;
+  private abortController: AbortController | null = null;
+  private executionId: string | null = null;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  async execute(request: ExecutionRequest, onEvent: StreamEventHandler): Promise<void> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.executionId = null;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/execute/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.authHeaders(),
+        },
+        body: JSON.stringify(request),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok) {
+        throw new HttpError(response.status, await errorMessage(response));
+      }
+
+      if (!response.body) {
+        throw new Error('No response body');
+      }
+
+      const stream = { lastEventId: 0, finished: false };
+      const handleEvent = (event: StreamEvent) => {
+        if (event.type === 'execution_start') {
+          this.executionId = event.executionId;
+        }
+        if (isTerminal(event)) {
+          stream.finished = true;
+        }
+        onEvent(event);
+      };
+
+      const read = await this.readStream(response.body, handleEvent, 0);
+      stream.lastEventId = read.lastEventId;
+
+      if (!stream.finished && this.executionId) {
+        await this.resume(
+          this.executionId,
+          stream.lastEventId,
+          handleEvent,
+          abortController.signal,
+          read.interruption
+        );
+      } else if (!stream.finished) {
+        onEvent({ type: 'error', error: connectionLost(read.interruption) });
+      }
+    } finally {
+      this.abortController = null;
+      this.executionId = null;
+    }
+  }
+
+  /**
+   * Reattach to a running execution and replay events after lastEventId,
+   * retrying with backoff until the run finishes.
+   */
+  async resume(
+    executionId: string,
+    lastEventId: number,
+    onEvent: StreamEventHandler,
+    signal?: AbortSignal,
+    interruption?: string
+  ): Promise<void> {
+    let finished = false;
+    const handleEvent = (event: StreamEvent) => {
+      if (isTerminal(event)) {
+        finished = true;
+      }
+      onEvent(event);
+    };
+
+    let attempts = 0;
+    while (!finished && attempts < MAX_RECONNECT_ATTEMPTS) {
+      attempts++;
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * attempts));
+
+      const previousEventId = lastEventId;
+      try {
+        const response = await fetch(
+          `${this.baseUrl}/execute/stream/${executionId}?after=${lastEventId}`,
+          { headers: this.authHeaders(), signal }
+        );
+
+        if (response.status === 404) break;
+        if (!response.ok || !response.body) {
+          interruption = await errorMessage(response);
+          continue;
+        }
+
+        const read = await this.readStream(response.body, handleEvent, lastEventId);
+        lastEventId = read.lastEventId;
+        interruption = read.interruption ?? interruption;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw error;
+        }
+        interruption = error instanceof Error ? error.message : String(error);
+      }
+
+      if (lastEventId > previousEventId) {
+        attempts = 0;
+      }
+    }
+
+    if (!finished) {
+      onEvent({ type: 'error', error: connectionLost(interruption) });
+    }
+  }
+
+  async cancel(): Promise<void> {
+    const executionId = this.executionId;
+
+    this.abortController?.abort();
+    this.abortController = null;
+
+    // Closing the stream alone only starts the server's reconnect grace period
+    if (executionId) {
+      await this.cancelExecution(executionId);
+    }
+  }
+
+  async cancelExecution(executionId: string): Promise<void> {
+    try {
+      await fetch(`${this.baseUrl}/execute/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+        body: JSON.stringify({ executionId }),
+      });
+    } catch {
+      // Ignore errors - the process may already be done
+    }
+  }
+
+  close(): void {
+    this.abortController?.abort();
+  }
+
+  // Read one SSE response and return the last event ID seen. Network
+  // failures end the read so the caller can reconnect; their message is
+  // returned so it can be reported if reconnecting fails too.
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: StreamEventHandler,
+    lastEventId: number
+  ): Promise<{ lastEventId: number; interruption?: string }> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('id: ')) {
+            lastEventId = parseInt(line.slice(4), 10) || lastEventId;
+          } else if (line.startsWith('data: ')) {
+            const jsonStr = line.slice(6);
+            if (!jsonStr.trim()) continue;
+
+            try {
+              onEvent(JSON.parse(jsonStr) as StreamEvent);
+            } catch {
+              // Skip malformed JSON
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error;
+      }
+      return { lastEventId, interruption: error instanceof Error ? error.message : String(error) };
+    }
+
+    return { lastEventId };
+  }
+
+  private authHeaders(): Record<string, string> {
+    const apiKey = getApiKey();
+    return apiKey ? { 'x-api-key': apiKey } : {};
+  }
+}
+
+interface PendingExecution {
+  onEvent: StreamEventHandler;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  executionId: string | null;
+  lastEventId: number;
+  // Set while a dropped socket's run is being resumed over SSE
+  resumeController?: AbortController;
+}
+
+/**
+ * Runs executions over the runtime's /ws endpoint. One socket is kept per
+ * session; if it cannot be opened the client falls back to SSE, and a socket
+ * dropped mid-run is resumed over SSE.
+ */
+export class WebSocketExecutionClient implements ExecutionClient {
+  readonly transport = 'websocket' as const;
+  private readonly wsUrl: string;
+  private readonly fallback: SseExecutionClient;
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private pending: PendingExecution | null = null;
+
+  constructor(baseUrl: string, sessionId: string) {
+    this.wsUrl = `${baseUrl.replace(/^http/, 'ws')}/ws?sessionId=${encodeURIComponent(sessionId)}`;
+    this.fallback = new SseExecutionClient(baseUrl);
+  }
+
+  async execute(request: ExecutionRequest, onEvent: StreamEventHandler): Promise<void> {
+    let socket: WebSocket;
+    try {
+      socket = await this.connect();
+    } catch {
+      return this.fallback.execute(request, onEvent);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending = { onEvent, resolve, reject, executionId: null, lastEventId: 0 };
+      socket.send(JSON.stringify({
+        type: 'prompt',
+        prompt: request.prompt,
+        files: request.files,
+        model: request.model,
+        apiKey: getApiKey() || undefined,
+      }));
+    });
+  }
+
+  async cancel(): Promise<void> {
+    const pending = this.pending;
+    this.pending = null;
+
+    if (!pending) {
+      // Execution may be running over the SSE fallback
+      return this.fallback.cancel();
+    }
+
+    pending.resumeController?.abort();
+    pending.reject(abortError());
+
+    if (pending.executionId) {
+      if (this.socket?.readyState === WebSocket.OPEN && !pending.resumeController) {
+        this.socket.send(JSON.stringify({ type: 'cancel' }));
+      } else {
+        await this.fallback.cancelExecution(pending.executionId);
+      }
+    }
+  }
+
+  close(): void {
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.socket = null;
+    this.fallback.close();
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (!this.connecting) {
+      this.connecting = new Promise<WebSocket>((resolve, reject) => {
+        const socket = new WebSocket(this.wsUrl);
+
+        socket.onopen = () => {
+          this.socket = socket;
+          this.startHeartbeat();
+          resolve(socket);
+        };
+        socket.onerror = () => reject(new Error('WebSocket connection failed'));
+        socket.onmessage = (message) => this.handleMessage(message.data);
+        socket.onclose = () => this.handleClose(socket);
+      }).finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: { type: string; eventId?: number; code?: string };
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    // Connection-level messages are not part of any execution
+    const pending = this.pending;
+    if (!pending || message.type === 'session' || message.type === 'pong') {
+      return;
+    }
+
+    if (message.type === 'error' && message.code === 'AUTH_REQUIRED' && !pending.executionId) {
+      this.pending = null;
+      pending.reject(new HttpError(401, 'Authentication required'));
+      return;
+    }
+
+    const event = message as StreamEvent;
+    if (event.type === 'execution_start') {
+      pending.executionId = event.executionId;
+    }
+    if (message.eventId) {
+      pending.lastEventId = message.eventId;
+    }
+
+    pending.onEvent(event);
+
+    if (isTerminal(event)) {
+      this.pending = null;
+      pending.resolve();
+    }
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (this.socket === socket) {
+      this.socket = null;
+      this.stopHeartbeat();
+    }
+
+    // The server keeps the run alive for a grace period - pick it up over SSE
+    const pending = this.pending;
+    if (!pending || pending.resumeController) {
+      return;
+    }
+
+    if (pending.executionId) {
+      pending.resumeController = new AbortController();
+      this.fallback
+        .resume(pending.executionId, pending.lastEventId, pending.onEvent, pending.resumeController.signal)
+        .then(pending.resolve, pending.reject)
+        .finally(() => {
+          if (this.pending === pending) {
+            this.pending = null;
+          }
+        });
+    } else {
+      this.pending = null;
+      pending.onEvent({ type: 'error', error: 'Connection to the project was lost' });
+      pending.resolve();
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeat = setInterval(() => {
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify({ type: 'ping' }));
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export interface UploadHandle {
+  done: Promise<void>;
+  abort(): void;
+}
+
+/**
+ * Uploads a file into a session's workspace as multipart/form-data. Uses
+ * XMLHttpRequest because fetch cannot report upload progress.
+ */
+export function uploadFile(
+  baseUrl: string,
+  sessionId: string,
+  file: File,
+  onProgress: (fraction: number) => void
+): UploadHandle {
+  const xhr = new XMLHttpRequest();
+
+  const done = new Promise<void>((resolve, reject) => {
+    xhr.open('POST', `${baseUrl}/sessions/${encodeURIComponent(sessionId)}/files`);
+
+    const apiKey = localStorage.getItem('bazaar_api_key');
+    if (apiKey) {
+      xhr.setRequestHeader('Authorization', `Bearer ${apiKey}`);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve();
+        return;
+      }
+
+      let message = `HTTP error! status: ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {
+        // Not JSON
+      }
+      reject(new Error(message));
+    };
+
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+    const form = new FormData();
+    form.append('file', file, file.name);
+    xhr.send(form);
+  });
+
+  return { done, abort: () => xhr.abort() };
+}
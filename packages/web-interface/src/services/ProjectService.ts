@@ -5,6 +5,14 @@ export interface Project {
   source: 'cli';
   status?: 'online' | 'offline' | 'unknown';
   description?: string;
+  capabilities?: ProjectCapabilities;
+  // Models prompts may choose from; empty when the project offers no choice
+  models?: string[];
+  defaultModel?: string;
+}
+
+export interface ProjectCapabilities {
+  websocket?: boolean;
 }
 
 export interface ProjectSource {
@@ -82,6 +90,9 @@ export class ProjectService {
           ...project,
           name: info.name || project.name,
           description: info.description,
+          capabilities: info.capabilities,
+          models: info.models,
+          defaultModel: info.defaultModel,
           status: 'online',
         };
       }
@@ -0,0 +1,17 @@
+/**
+ * Save a fetched file through the browser's download prompt. Used where a
+ * plain link won't do because the request needs an Authorization header.
+ */
+export async function saveResponse(response: Response, filename: string): Promise<void> {
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,19 @@
+// File listing types (matching container-runtime)
+export interface FileTreeNode {
+  name: string;
+  type: 'file' | 'directory';
+  size?: number;
+  children?: FileTreeNode[];
+  // Total number of children, set when the listing leaves some out
+  childCount?: number;
+  // Download link for files, already signed when the folder requires auth
+  url?: string;
+}
+
+export interface StaticFilesResult {
+  folder: string;
+  urlPath: string;
+  access: 'shared' | 'per-user';
+  auth: 'none' | 'token';
+  files: FileTreeNode;
+}
@@ -0,0 +1,106 @@
+// Stream event types (matching container-runtime)
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+export interface ThinkingContent {
+  type: 'thinking';
+  thinking: string;
+}
+
+export type ContentBlock = TextContent | ToolUseContent | ToolResultContent | ThinkingContent;
+
+export interface AssistantMessageEvent {
+  type: 'assistant';
+  message: {
+    role: 'assistant';
+    content: ContentBlock[];
+  };
+}
+
+export interface ResultEvent {
+  type: 'result';
+  subtype: 'success' | 'error';
+  total_cost_usd: number;
+  duration_ms: number;
+  num_turns: number;
+  result: string;
+  session_id: string;
+  is_error: boolean;
+}
+
+export interface InitEvent {
+  type: 'init';
+  session_id: string;
+}
+
+export interface PartialEvent {
+  type: 'partial';
+  delta: {
+    type: string;
+    text?: string;
+  };
+}
+
+export interface ExecutionStartEvent {
+  type: 'execution_start';
+  executionId: string;
+}
+
+export interface QueuedEvent {
+  type: 'queued';
+  position: number;
+  estimatedWaitMs: number;
+}
+
+export interface CheckpointEvent {
+  type: 'checkpoint';
+  checkpointId: number;
+}
+
+export interface FileChange {
+  path: string;
+  status: 'created' | 'modified' | 'deleted';
+  binary: boolean;
+  diff?: string;
+  sha256?: string;
+  size?: number;
+  previousSize?: number;
+}
+
+export interface WorkspaceChangesEvent {
+  type: 'workspace_changes';
+  changes: FileChange[];
+  truncated: boolean;
+}
+
+export interface PermissionRequestEvent {
+  type: 'permission_request';
+  requestId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  expiresAt: number;
+}
+
+export interface PermissionResolvedEvent {
+  type: 'permission_resolved';
+  requestId: string;
+  decision: 'allow' | 'deny';
+}
+
+export type StreamEvent = InitEvent | ExecutionStartEvent | QueuedEvent | CheckpointEvent | WorkspaceChangesEvent | PermissionRequestEvent | PermissionResolvedEvent | AssistantMessageEvent | PartialEvent | ResultEvent | { type: 'stream_end' | 'error' | 'cancelled'; error?: string };